@@ -2,11 +2,11 @@
 CREATE TABLE IF NOT EXISTS posts (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     title VARCHAR(500) NOT NULL,
-    slug VARCHAR(500) UNIQUE NOT NULL,
+    slug VARCHAR(500) NOT NULL,
     content TEXT NOT NULL,
     excerpt TEXT,
     author_id UUID NOT NULL,
-    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived', 'scheduled')),
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'in_review', 'published', 'archived', 'scheduled')),
     featured_image_url VARCHAR(500),
     meta_title VARCHAR(200),
     meta_description TEXT,
@@ -49,20 +49,241 @@ CREATE TABLE IF NOT EXISTS post_views (
     viewed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE TABLE IF NOT EXISTS post_slug_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    slug VARCHAR(500) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS post_status_transitions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    action VARCHAR(50) NOT NULL,
+    comment TEXT,
+    actor_id UUID,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Versions snapshot every editable field plus category and tag associations.
+-- Rows with NULL category_ids predate full snapshots and only hold title, content and excerpt.
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS slug VARCHAR(500);
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS featured_image_url VARCHAR(500);
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS meta_title VARCHAR(200);
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS meta_description TEXT;
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS category_ids UUID[];
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS tag_ids UUID[];
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS change_summary TEXT;
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS source VARCHAR(50);
+
+-- Optimistic concurrency: every write to a post bumps its revision
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+-- Trash: deleted posts are kept until the retention period in blog settings runs out
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+-- Content expiry: the scheduler moves published posts to expiry_status once expires_at passes
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS expiry_status VARCHAR(20) NOT NULL DEFAULT 'archived'
+    CHECK (expiry_status IN ('archived', 'draft'));
+
+-- Scheduled publishing: failed attempts back off until the retry limit is reached
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS next_publish_attempt_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS post_publish_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    succeeded BOOLEAN NOT NULL,
+    error TEXT,
+    worker_id VARCHAR(255),
+    attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Outbound webhooks: one delivery row per subscribed webhook per event, one attempt row per HTTP call
+CREATE TABLE IF NOT EXISTS webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    url VARCHAR(500) NOT NULL,
+    description VARCHAR(500),
+    events TEXT[] NOT NULL,
+    secret VARCHAR(200) NOT NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by UUID,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_response_status INTEGER,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    delivered_at TIMESTAMP,
+    redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    delivery_id UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Transactional outbox: domain events written alongside the change, relayed to other services afterwards
+CREATE TABLE IF NOT EXISTS outbox_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sequence BIGSERIAL UNIQUE,
+    aggregate_type VARCHAR(50) NOT NULL,
+    aggregate_id UUID NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP,
+    published_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- View tracking: visitors are identified by a salted hash of IP and user agent.
+-- Repeat views inside the dedup window are kept for the raw count but not marked unique.
+ALTER TABLE post_views ADD COLUMN IF NOT EXISTS visitor_hash VARCHAR(64);
+ALTER TABLE post_views ADD COLUMN IF NOT EXISTS is_unique BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- View analytics: the scheduler rolls post_views up into daily counters and lifetime totals
+CREATE TABLE IF NOT EXISTS post_view_daily (
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    unique_views INTEGER NOT NULL DEFAULT 0,
+    raw_views INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (post_id, day)
+);
+
+CREATE TABLE IF NOT EXISTS post_view_totals (
+    post_id UUID PRIMARY KEY REFERENCES posts(id) ON DELETE CASCADE,
+    unique_views INTEGER NOT NULL DEFAULT 0,
+    raw_views INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS view_rollup_state (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    rolled_up_through TIMESTAMP NOT NULL
+);
+
+-- Trending and popular listings read this table, which the scheduler rebuilds from the view rollups
+CREATE TABLE IF NOT EXISTS post_popularity (
+    post_id UUID PRIMARY KEY REFERENCES posts(id) ON DELETE CASCADE,
+    trending_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+    views_1d INTEGER NOT NULL DEFAULT 0,
+    views_7d INTEGER NOT NULL DEFAULT 0,
+    views_30d INTEGER NOT NULL DEFAULT 0,
+    views_90d INTEGER NOT NULL DEFAULT 0,
+    views_all_time INTEGER NOT NULL DEFAULT 0,
+    computed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Content formats: content is stored as written and rendered to sanitized HTML with a table of contents on save.
+-- Posts saved before rendering existed have NULL content_html and are rendered when read.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_format VARCHAR(20) NOT NULL DEFAULT 'html'
+    CHECK (content_format IN ('markdown', 'html', 'plaintext'));
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_html TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS toc JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE post_versions ADD COLUMN IF NOT EXISTS content_format VARCHAR(20);
+
+-- Reading stats are computed from the rendered content on save (NULL until an older post is saved again).
+-- excerpt_auto marks an excerpt generated from the content, which is regenerated until one is written by hand.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS word_count INTEGER;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS reading_time_minutes INTEGER;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS excerpt_auto BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Translations: posts in the same translation group are versions of one another in different locales.
+-- Slugs only have to be unique within a locale, and a group holds at most one post per locale.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'en';
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS translation_group_id UUID NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_slug_key;
+ALTER TABLE post_slug_history ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'en';
+DROP INDEX IF EXISTS idx_post_slug_history_slug;
+
+-- Contributors: everyone credited on a post. author, co_author and editor may change the post;
+-- reviewers can read drafts and history but not edit. posts.author_id stays the primary author.
+CREATE TABLE IF NOT EXISTS post_contributors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('author', 'co_author', 'editor', 'reviewer')),
+    added_by UUID,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (post_id, user_id)
+);
+INSERT INTO post_contributors (post_id, user_id, role, added_by)
+SELECT p.id, p.author_id, 'author', p.author_id
+FROM posts p
+WHERE NOT EXISTS (SELECT 1 FROM post_contributors pc WHERE pc.post_id = p.id AND pc.user_id = p.author_id);
+
+-- Editorial review: bring older databases up to the current set of statuses
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE posts ADD CONSTRAINT posts_status_check
+    CHECK (status IN ('draft', 'in_review', 'published', 'archived', 'scheduled'));
+
+-- Full-text search: title ranks above excerpt, which ranks above content
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(excerpt, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(content, '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(meta_title, '') || ' ' || coalesce(meta_description, '')), 'D')
+    ) STORED;
+
 -- Indexes
-CREATE INDEX idx_posts_author_id ON posts(author_id);
-CREATE INDEX idx_posts_status ON posts(status);
-CREATE INDEX idx_posts_published_at ON posts(published_at);
-CREATE INDEX idx_posts_slug ON posts(slug);
-CREATE INDEX idx_posts_scheduled_at ON posts(scheduled_at);
-CREATE INDEX idx_post_versions_post_id ON post_versions(post_id);
-CREATE INDEX idx_post_versions_version_number ON post_versions(version_number);
-CREATE INDEX idx_post_categories_post_id ON post_categories(post_id);
-CREATE INDEX idx_post_categories_category_id ON post_categories(category_id);
-CREATE INDEX idx_post_tags_post_id ON post_tags(post_id);
-CREATE INDEX idx_post_tags_tag_id ON post_tags(tag_id);
-CREATE INDEX idx_post_views_post_id ON post_views(post_id);
-CREATE INDEX idx_post_views_viewed_at ON post_views(viewed_at);
+CREATE INDEX IF NOT EXISTS idx_posts_author_id ON posts(author_id);
+CREATE INDEX IF NOT EXISTS idx_posts_status ON posts(status);
+CREATE INDEX IF NOT EXISTS idx_posts_published_at ON posts(published_at);
+CREATE INDEX IF NOT EXISTS idx_posts_slug ON posts(slug);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_locale_slug ON posts(locale, slug);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_translation_group_locale ON posts(translation_group_id, locale);
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled_at ON posts(scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_posts_deleted_at ON posts(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_posts_expires_at ON posts(expires_at);
+CREATE INDEX IF NOT EXISTS idx_posts_search_vector ON posts USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_posts_published_at_cursor ON posts((COALESCE(published_at, '-infinity'::timestamp)), id);
+CREATE INDEX IF NOT EXISTS idx_posts_updated_at_cursor ON posts(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_post_versions_post_id ON post_versions(post_id);
+CREATE INDEX IF NOT EXISTS idx_post_versions_version_number ON post_versions(version_number);
+CREATE INDEX IF NOT EXISTS idx_post_categories_post_id ON post_categories(post_id);
+CREATE INDEX IF NOT EXISTS idx_post_categories_category_id ON post_categories(category_id);
+CREATE INDEX IF NOT EXISTS idx_post_tags_post_id ON post_tags(post_id);
+CREATE INDEX IF NOT EXISTS idx_post_tags_tag_id ON post_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_post_views_post_id ON post_views(post_id);
+CREATE INDEX IF NOT EXISTS idx_post_views_viewed_at ON post_views(viewed_at);
+CREATE INDEX IF NOT EXISTS idx_post_views_visitor ON post_views(post_id, visitor_hash, viewed_at);
+CREATE INDEX IF NOT EXISTS idx_post_view_daily_day ON post_view_daily(day);
+CREATE INDEX IF NOT EXISTS idx_post_view_totals_unique_views ON post_view_totals(unique_views);
+CREATE INDEX IF NOT EXISTS idx_post_status_transitions_post_id ON post_status_transitions(post_id);
+CREATE INDEX IF NOT EXISTS idx_post_publish_attempts_post_id ON post_publish_attempts(post_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery_id ON webhook_delivery_attempts(delivery_id);
+CREATE INDEX IF NOT EXISTS idx_outbox_events_pending ON outbox_events(sequence) WHERE published_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_events_aggregate ON outbox_events(aggregate_type, aggregate_id, sequence) WHERE published_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_events_published_at ON outbox_events(published_at);
+CREATE INDEX IF NOT EXISTS idx_post_slug_history_post_id ON post_slug_history(post_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_post_slug_history_locale_slug ON post_slug_history(locale, slug);
+CREATE INDEX IF NOT EXISTS idx_post_contributors_user_id ON post_contributors(user_id, role);
 
 -- Blog Settings Table
 CREATE TABLE IF NOT EXISTS blog_settings (
@@ -85,6 +306,20 @@ CREATE TABLE IF NOT EXISTS blog_settings (
     CONSTRAINT single_row CHECK (id = '00000000-0000-0000-0000-000000000001')
 );
 
+-- Public site address used for sitemaps and feed links
+ALTER TABLE blog_settings ADD COLUMN IF NOT EXISTS site_url VARCHAR(500);
+
+-- Days a trashed post is kept before it is purged for good
+ALTER TABLE blog_settings ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30;
+
+-- Reading speed used for reading_time_minutes
+ALTER TABLE blog_settings ADD COLUMN IF NOT EXISTS reading_words_per_minute INTEGER NOT NULL DEFAULT 200;
+
+-- Content sanitizer allowlist; NULL keeps the built-in default for that part of the policy
+ALTER TABLE blog_settings ADD COLUMN IF NOT EXISTS sanitizer_allowed_tags TEXT[];
+ALTER TABLE blog_settings ADD COLUMN IF NOT EXISTS sanitizer_allowed_attributes JSONB;
+ALTER TABLE blog_settings ADD COLUMN IF NOT EXISTS sanitizer_iframe_hosts TEXT[];
+
 -- Insert default blog settings if not exists
 INSERT INTO blog_settings (id, blog_title, blog_description)
 VALUES ('00000000-0000-0000-0000-000000000001', 'My Blog', 'Welcome to my blog')
@@ -102,3 +337,15 @@ $$ language 'plpgsql';
 DROP TRIGGER IF EXISTS update_posts_updated_at ON posts;
 CREATE TRIGGER update_posts_updated_at BEFORE UPDATE ON posts
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION increment_post_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.revision = OLD.revision + 1;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS increment_posts_revision ON posts;
+CREATE TRIGGER increment_posts_revision BEFORE UPDATE ON posts
+    FOR EACH ROW EXECUTE FUNCTION increment_post_revision();
@@ -0,0 +1,126 @@
+import { Response, NextFunction } from 'express';
+import { getDatabase } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { canReadPost, contributorCondition } from '../services/postContributors';
+
+const SERIES_INTERVALS = ['day', 'week', 'month'];
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 3 * 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Helper function to parse a YYYY-MM-DD query parameter
+const parseDay = (value: unknown, name: string): Date | null => {
+  if (value === undefined) return null;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(date.getTime())) {
+    throw createError(`${name} must be a date in YYYY-MM-DD format`, 400);
+  }
+
+  return date;
+};
+
+const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Views come from the daily rollup, so the current day trails raw views by up to one rollup run
+export const getViewTimeSeries = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { postId, authorId, interval = 'day' } = req.query;
+    const db = getDatabase();
+    const isAdminOrEditor = ['admin', 'editor'].includes(req.user!.role);
+
+    if (!SERIES_INTERVALS.includes(interval as string)) {
+      throw createError(`interval must be one of: ${SERIES_INTERVALS.join(', ')}`, 400);
+    }
+
+    if (postId && authorId) {
+      throw createError('Filter by postId or authorId, not both', 400);
+    }
+
+    const to = parseDay(req.query.to, 'to') || new Date(`${formatDay(new Date())}T00:00:00Z`);
+    const from = parseDay(req.query.from, 'from') || new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000);
+
+    if (from > to) {
+      throw createError('from must not be after to', 400);
+    }
+
+    if ((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) >= MAX_RANGE_DAYS) {
+      throw createError(`Date range cannot exceed ${MAX_RANGE_DAYS} days`, 400);
+    }
+
+    // Work out the scope; authors only see their own numbers
+    let scope: 'post' | 'author' | 'site';
+    let scopeCondition = '';
+    const params: any[] = [interval, formatDay(from), formatDay(to)];
+
+    if (postId) {
+      const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL', [postId]);
+      if (postResult.rows.length === 0) {
+        throw createError('Post not found', 404);
+      }
+
+      if (!(await canReadPost(db, postId as string, req.user!))) {
+        throw createError('Not authorized to view analytics for this post', 403);
+      }
+
+      scope = 'post';
+      params.push(postId);
+      scopeCondition = `AND d.post_id = $${params.length}`;
+    } else if (authorId) {
+      if (authorId !== req.user!.id && !isAdminOrEditor) {
+        throw createError('Not authorized to view analytics for this author', 403);
+      }
+
+      scope = 'author';
+      params.push(authorId);
+      scopeCondition = `AND d.post_id IN (SELECT p.id FROM posts p WHERE ${contributorCondition('p', `$${params.length}`)})`;
+    } else {
+      if (!isAdminOrEditor) {
+        throw createError('Only editors can view site-wide analytics', 403);
+      }
+
+      scope = 'site';
+    }
+
+    // One row per bucket, including buckets without any views
+    const result = await db.query(`
+      SELECT to_char(bucket, 'YYYY-MM-DD') as period,
+             COALESCE(SUM(d.unique_views), 0)::integer as unique_views,
+             COALESCE(SUM(d.raw_views), 0)::integer as raw_views
+      FROM generate_series(
+        date_trunc($1, $2::date::timestamp),
+        date_trunc($1, $3::date::timestamp),
+        ('1 ' || $1)::interval
+      ) bucket
+      LEFT JOIN post_view_daily d
+        ON date_trunc($1, d.day::timestamp) = bucket
+        AND d.day BETWEEN $2::date AND $3::date
+        ${scopeCondition}
+      GROUP BY bucket
+      ORDER BY bucket
+    `, params);
+
+    const totals = result.rows.reduce((sum: any, row: any) => ({
+      uniqueViews: sum.uniqueViews + row.unique_views,
+      rawViews: sum.rawViews + row.raw_views
+    }), { uniqueViews: 0, rawViews: 0 });
+
+    res.json({
+      scope,
+      postId: postId || null,
+      authorId: authorId || null,
+      interval,
+      from: formatDay(from),
+      to: formatDay(to),
+      series: result.rows.map((row: any) => ({
+        period: row.period,
+        uniqueViews: row.unique_views,
+        rawViews: row.raw_views
+      })),
+      totals
+    });
+  } catch (error) {
+    next(error);
+  }
+};
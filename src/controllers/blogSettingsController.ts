@@ -2,43 +2,53 @@ import { Request, Response, NextFunction } from 'express';
 import { getDatabase } from '../config/database';
 import { createError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
+import { emitWebhookEvent } from '../services/webhooks';
+import { recordOutboxEvent } from '../services/outbox';
+import { DEFAULT_WORDS_PER_MINUTE } from '../utils/contentStats';
 
 const SETTINGS_ID = '00000000-0000-0000-0000-000000000001';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const SETTINGS_COLUMNS = `
+  blog_title, blog_description, blog_logo_url, blog_favicon_url, 
+  contact_email, social_facebook, social_twitter, social_linkedin, social_github,
+  seo_meta_title, seo_meta_description, seo_keywords, google_analytics_id,
+  site_url, trash_retention_days, reading_words_per_minute, sanitizer_allowed_tags,
+  sanitizer_allowed_attributes, sanitizer_iframe_hosts, updated_at, updated_by
+`;
+
+// Load the settings row, creating the defaults on first use
+export const fetchBlogSettings = async (): Promise<any> => {
+  const db = getDatabase();
+
+  const result = await db.query(
+    `SELECT ${SETTINGS_COLUMNS} FROM blog_settings WHERE id = $1`,
+    [SETTINGS_ID]
+  );
+
+  if (result.rows.length > 0) {
+    return result.rows[0];
+  }
+
+  // Create default settings if they don't exist
+  await db.query(`
+    INSERT INTO blog_settings (id, blog_title, blog_description)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (id) DO NOTHING
+  `, [SETTINGS_ID, 'My Blog', 'Welcome to my blog']);
+
+  const newResult = await db.query(
+    `SELECT ${SETTINGS_COLUMNS} FROM blog_settings WHERE id = $1`,
+    [SETTINGS_ID]
+  );
+
+  return newResult.rows[0];
+};
 
 export const getBlogSettings = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const db = getDatabase();
-    
-    const result = await db.query(
-      `SELECT blog_title, blog_description, blog_logo_url, blog_favicon_url, 
-              contact_email, social_facebook, social_twitter, social_linkedin, social_github,
-              seo_meta_title, seo_meta_description, seo_keywords, google_analytics_id,
-              updated_at, updated_by 
-       FROM blog_settings WHERE id = $1`,
-      [SETTINGS_ID]
-    );
-
-    if (result.rows.length === 0) {
-      // Create default settings if they don't exist
-      await db.query(`
-        INSERT INTO blog_settings (id, blog_title, blog_description)
-        VALUES ($1, $2, $3)
-      `, [SETTINGS_ID, 'My Blog', 'Welcome to my blog']);
-      
-      const newResult = await db.query(
-        `SELECT blog_title, blog_description, blog_logo_url, blog_favicon_url, 
-                contact_email, social_facebook, social_twitter, social_linkedin, social_github,
-                seo_meta_title, seo_meta_description, seo_keywords, google_analytics_id,
-                updated_at, updated_by 
-         FROM blog_settings WHERE id = $1`,
-        [SETTINGS_ID]
-      );
-      
-      res.json({ settings: newResult.rows[0] });
-      return;
-    }
-
-    res.json({ settings: result.rows[0] });
+    const settings = await fetchBlogSettings();
+    res.json({ settings });
   } catch (error) {
     console.error('Error fetching blog settings:', error);
     next(error);
@@ -46,7 +56,11 @@ export const getBlogSettings = async (req: Request, res: Response, next: NextFun
 };
 
 export const updateBlogSettings = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
   try {
+    await client.query('BEGIN');
+
     const { 
       blogTitle, 
       blogDescription, 
@@ -60,9 +74,14 @@ export const updateBlogSettings = async (req: AuthRequest, res: Response, next:
       seoMetaTitle,
       seoMetaDescription,
       seoKeywords,
-      googleAnalyticsId
+      googleAnalyticsId,
+      siteUrl,
+      trashRetentionDays,
+      readingWordsPerMinute,
+      sanitizerAllowedTags,
+      sanitizerAllowedAttributes,
+      sanitizerIframeHosts
     } = req.body;
-    const db = getDatabase();
 
     // Validate required fields
     if (!blogTitle || blogTitle.trim().length === 0) {
@@ -74,13 +93,15 @@ export const updateBlogSettings = async (req: AuthRequest, res: Response, next:
     }
 
     // Update or insert settings
-    const result = await db.query(`
+    const result = await client.query(`
       INSERT INTO blog_settings (
         id, blog_title, blog_description, blog_logo_url, blog_favicon_url,
         contact_email, social_facebook, social_twitter, social_linkedin, social_github,
-        seo_meta_title, seo_meta_description, seo_keywords, google_analytics_id, updated_by
+        seo_meta_title, seo_meta_description, seo_keywords, google_analytics_id, site_url,
+        trash_retention_days, reading_words_per_minute, sanitizer_allowed_tags, sanitizer_allowed_attributes,
+        sanitizer_iframe_hosts, updated_by
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
       ON CONFLICT (id) 
       DO UPDATE SET 
         blog_title = EXCLUDED.blog_title,
@@ -96,12 +117,15 @@ export const updateBlogSettings = async (req: AuthRequest, res: Response, next:
         seo_meta_description = EXCLUDED.seo_meta_description,
         seo_keywords = EXCLUDED.seo_keywords,
         google_analytics_id = EXCLUDED.google_analytics_id,
+        site_url = EXCLUDED.site_url,
+        trash_retention_days = EXCLUDED.trash_retention_days,
+        reading_words_per_minute = EXCLUDED.reading_words_per_minute,
+        sanitizer_allowed_tags = EXCLUDED.sanitizer_allowed_tags,
+        sanitizer_allowed_attributes = EXCLUDED.sanitizer_allowed_attributes,
+        sanitizer_iframe_hosts = EXCLUDED.sanitizer_iframe_hosts,
         updated_by = EXCLUDED.updated_by,
         updated_at = CURRENT_TIMESTAMP
-      RETURNING blog_title, blog_description, blog_logo_url, blog_favicon_url,
-                contact_email, social_facebook, social_twitter, social_linkedin, social_github,
-                seo_meta_title, seo_meta_description, seo_keywords, google_analytics_id,
-                updated_at, updated_by
+      RETURNING ${SETTINGS_COLUMNS}
     `, [
       SETTINGS_ID,
       blogTitle.trim(),
@@ -117,16 +141,34 @@ export const updateBlogSettings = async (req: AuthRequest, res: Response, next:
       seoMetaDescription ? seoMetaDescription.trim() : null,
       seoKeywords ? seoKeywords.trim() : null,
       googleAnalyticsId ? googleAnalyticsId.trim() : null,
+      siteUrl ? siteUrl.trim() : null,
+      trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+      readingWordsPerMinute ?? DEFAULT_WORDS_PER_MINUTE,
+      sanitizerAllowedTags ?? null,
+      sanitizerAllowedAttributes ? JSON.stringify(sanitizerAllowedAttributes) : null,
+      sanitizerIframeHosts ?? null,
       req.user?.id || null
     ]);
 
+    await recordOutboxEvent(client, 'settings', SETTINGS_ID, 'settings.updated', {
+      actorId: req.user?.id || null,
+      settings: result.rows[0]
+    });
+
+    await client.query('COMMIT');
+
+    await emitWebhookEvent('settings.updated', { settings: result.rows[0] });
+
     res.json({
       settings: result.rows[0],
       message: 'Blog settings updated successfully'
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Error updating blog settings:', error);
     next(error);
+  } finally {
+    client.release();
   }
 };
 
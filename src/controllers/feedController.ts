@@ -0,0 +1,199 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { getDatabase } from '../config/database';
+import { fetchBlogSettings } from './blogSettingsController';
+import { escapeXml, cdata } from '../utils/xml';
+import { getSiteUrl, getPostUrl } from '../utils/urls';
+import { renderContent } from '../utils/contentRenderer';
+import { getSanitizePolicy } from '../utils/sanitize';
+
+type FeedFormat = 'rss' | 'atom' | 'json';
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+// Helper function to build the WHERE clause shared by the freshness check and the item query
+const buildFeedConditions = (req: Request) => {
+  const { categoryId, tagId, locale } = req.query;
+  const conditions: string[] = [
+    `p.status = 'published'`,
+    'p.deleted_at IS NULL',
+    '(p.expires_at IS NULL OR p.expires_at > CURRENT_TIMESTAMP)'
+  ];
+  const params: any[] = [];
+
+  // Category filter
+  if (categoryId) {
+    params.push(categoryId);
+    conditions.push(`EXISTS (SELECT 1 FROM post_categories pc WHERE pc.post_id = p.id AND pc.category_id = $${params.length})`);
+  }
+
+  // Tag filter
+  if (tagId) {
+    params.push(tagId);
+    conditions.push(`EXISTS (SELECT 1 FROM post_tags pt WHERE pt.post_id = p.id AND pt.tag_id = $${params.length})`);
+  }
+
+  // Locale filter
+  if (locale) {
+    params.push(locale);
+    conditions.push(`p.locale = $${params.length}`);
+  }
+
+  return { where: conditions.join(' AND '), params };
+};
+
+const renderRss = (settings: any, posts: any[], selfUrl: string, siteUrl: string, lastModified: Date): string => {
+  const items = posts.map((post) => `
+    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${escapeXml(getPostUrl(siteUrl, post.slug, post.locale))}</link>
+      <guid isPermaLink="false">${escapeXml(post.id)}</guid>
+      <pubDate>${new Date(post.published_at).toUTCString()}</pubDate>
+      ${post.excerpt ? `<description>${escapeXml(post.excerpt)}</description>` : ''}
+      <content:encoded>${cdata(post.content)}</content:encoded>
+    </item>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(settings.blog_title)}</title>
+    <link>${escapeXml(siteUrl)}</link>
+    <description>${escapeXml(settings.blog_description || settings.blog_title)}</description>
+    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>
+    ${settings.blog_logo_url ? `<image>
+      <url>${escapeXml(settings.blog_logo_url)}</url>
+      <title>${escapeXml(settings.blog_title)}</title>
+      <link>${escapeXml(siteUrl)}</link>
+    </image>` : ''}${items}
+  </channel>
+</rss>
+`;
+};
+
+const renderAtom = (settings: any, posts: any[], selfUrl: string, siteUrl: string, lastModified: Date): string => {
+  const entries = posts.map((post) => `
+  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(getPostUrl(siteUrl, post.slug, post.locale))}" />
+    <id>urn:uuid:${escapeXml(post.id)}</id>
+    <published>${new Date(post.published_at).toISOString()}</published>
+    <updated>${new Date(post.updated_at).toISOString()}</updated>
+    ${post.excerpt ? `<summary>${escapeXml(post.excerpt)}</summary>` : ''}
+    <content type="html">${escapeXml(post.content)}</content>
+  </entry>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(settings.blog_title)}</title>
+  ${settings.blog_description ? `<subtitle>${escapeXml(settings.blog_description)}</subtitle>` : ''}
+  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}" />
+  <id>${escapeXml(selfUrl)}</id>
+  <updated>${lastModified.toISOString()}</updated>
+  <author><name>${escapeXml(settings.blog_title)}</name></author>
+  ${settings.blog_logo_url ? `<logo>${escapeXml(settings.blog_logo_url)}</logo>` : ''}${entries}
+</feed>
+`;
+};
+
+const renderJsonFeed = (settings: any, posts: any[], selfUrl: string, siteUrl: string): string => {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: settings.blog_title,
+    home_page_url: siteUrl,
+    feed_url: selfUrl,
+    description: settings.blog_description || undefined,
+    icon: settings.blog_logo_url || undefined,
+    favicon: settings.blog_favicon_url || undefined,
+    items: posts.map((post) => ({
+      id: post.id,
+      url: getPostUrl(siteUrl, post.slug, post.locale),
+      title: post.title,
+      content_html: post.content,
+      summary: post.excerpt || undefined,
+      image: post.featured_image_url || undefined,
+      date_published: new Date(post.published_at).toISOString(),
+      date_modified: new Date(post.updated_at).toISOString()
+    }))
+  });
+};
+
+const serveFeed = (format: FeedFormat) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const db = getDatabase();
+      const limitNum = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+      const { where, params } = buildFeedConditions(req);
+      const settings = await fetchBlogSettings();
+
+      // Work out freshness first so unchanged feeds are answered without rendering
+      const stateResult = await db.query(`
+        SELECT MAX(GREATEST(p.updated_at, p.published_at)) as last_modified, COUNT(*) as count
+        FROM posts p
+        WHERE ${where}
+      `, params);
+
+      const { last_modified: postsModified, count } = stateResult.rows[0];
+      const lastModified = new Date(Math.max(
+        postsModified ? new Date(postsModified).getTime() : 0,
+        settings.updated_at ? new Date(settings.updated_at).getTime() : 0
+      ));
+
+      const etag = crypto
+        .createHash('sha1')
+        .update([format, req.originalUrl, lastModified.getTime(), count].join('|'))
+        .digest('hex');
+
+      res.set('Cache-Control', 'public, max-age=300');
+      res.set('ETag', `"${etag}"`);
+      res.set('Last-Modified', lastModified.toUTCString());
+
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      const postsResult = await db.query(`
+        SELECT p.id, p.title, p.slug, p.locale, p.content, p.content_html, p.content_format, p.excerpt, p.featured_image_url,
+               p.published_at, p.updated_at
+        FROM posts p
+        WHERE ${where}
+        ORDER BY p.published_at DESC
+        LIMIT $${params.length + 1}
+      `, [...params, limitNum]);
+
+      // Posts saved before content was rendered on write still need sanitizing on the way out
+      const policy = getSanitizePolicy(settings);
+      const posts = postsResult.rows.map((post) => ({
+        ...post,
+        content: post.content_html ?? renderContent(post.content, post.content_format, policy).html
+      }));
+
+      const siteUrl = getSiteUrl(settings);
+      const selfUrl = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+
+      let body: string;
+      if (format === 'rss') {
+        body = renderRss(settings, posts, selfUrl, siteUrl, lastModified);
+      } else if (format === 'atom') {
+        body = renderAtom(settings, posts, selfUrl, siteUrl, lastModified);
+      } else {
+        body = renderJsonFeed(settings, posts, selfUrl, siteUrl);
+      }
+
+      res.type(FEED_CONTENT_TYPES[format]).send(body);
+    } catch (error) {
+      console.error(`Error generating ${format} feed:`, error);
+      next(error);
+    }
+  };
+};
+
+export const getRssFeed = serveFeed('rss');
+export const getAtomFeed = serveFeed('atom');
+export const getJsonFeed = serveFeed('json');
@@ -0,0 +1,123 @@
+import { updatePost, saveDraft } from './postController';
+import { getDatabase } from '../config/database';
+
+jest.mock('../config/database', () => ({ getDatabase: jest.fn() }));
+jest.mock('./blogSettingsController', () => ({
+  fetchBlogSettings: jest.fn().mockResolvedValue({ reading_words_per_minute: 200 })
+}));
+
+const POST_ID = '11111111-1111-1111-1111-111111111111';
+
+const CURRENT_POST = {
+  id: POST_ID,
+  title: 'Current title',
+  slug: 'current-title',
+  locale: 'en',
+  content: '<p>Current</p>',
+  content_format: 'html',
+  content_html: '<p>Current</p>',
+  toc: [],
+  excerpt: 'Current',
+  author_id: 'author-1',
+  status: 'draft',
+  word_count: 1,
+  reading_time_minutes: 1,
+  revision: 3
+};
+
+// Behaves like a pg connection: a failed query inside a transaction aborts it until ROLLBACK.
+// The categories and tags tables belong to another service and don't exist here.
+const createConnection = (queries: string[]) => {
+  let inTransaction = false;
+  let aborted = false;
+
+  return {
+    query: jest.fn(async (sql: string) => {
+      const text = sql.trim();
+      queries.push(text);
+
+      if (text === 'BEGIN') {
+        inTransaction = true;
+        return { rows: [] };
+      }
+      if (text === 'COMMIT' || text === 'ROLLBACK') {
+        inTransaction = false;
+        aborted = false;
+        return { rows: [] };
+      }
+      if (aborted) {
+        throw new Error('current transaction is aborted, commands ignored until end of transaction block');
+      }
+      if (/FROM (categories|tags)\b/.test(text)) {
+        aborted = inTransaction;
+        throw new Error('relation does not exist');
+      }
+      if (/FOR UPDATE/.test(text) || /SELECT p\.\*/.test(text)) {
+        return { rows: [{ ...CURRENT_POST }] };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn()
+  };
+};
+
+const setUpDatabase = () => {
+  const queries: string[] = [];
+  const client = createConnection(queries);
+  (getDatabase as jest.Mock).mockReturnValue({
+    connect: jest.fn().mockResolvedValue(client),
+    // Pool queries run on a connection of their own
+    query: (sql: string) => createConnection(queries).query(sql)
+  });
+  return { client, queries };
+};
+
+const buildRequest = (params: Record<string, string>, body: Record<string, unknown>, ifMatch: string) => ({
+  params,
+  body,
+  user: { id: 'editor-1', email: 'editor@example.com', username: 'editor', role: 'editor' },
+  get: (header: string) => (header.toLowerCase() === 'if-match' ? ifMatch : undefined)
+});
+
+const buildResponse = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.set = jest.fn(() => res);
+  return res;
+};
+
+describe('If-Match on post writes', () => {
+  it('answers a stale update with 412 and the current post', async () => {
+    const { client, queries } = setUpDatabase();
+    const next = jest.fn();
+
+    await updatePost(buildRequest({ id: POST_ID }, { title: 'New title' }, '"2"') as any, buildResponse(), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    const error = next.mock.calls[0][0];
+    expect(error.statusCode).toBe(412);
+    expect(error.details).toMatchObject({
+      currentRevision: 3,
+      etag: '"3"',
+      post: { id: POST_ID, title: 'Current title', categories: [], tags: [], contributors: [] }
+    });
+    expect(queries.some((query) => query.startsWith('UPDATE posts'))).toBe(false);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('answers a stale draft save with 412 and the current post', async () => {
+    setUpDatabase();
+    const next = jest.fn();
+
+    await saveDraft(
+      buildRequest({}, { postId: POST_ID, title: 'New title', content: '<p>New</p>' }, '"2"') as any,
+      buildResponse(),
+      next
+    );
+
+    const error = next.mock.calls[0][0];
+    expect(error.statusCode).toBe(412);
+    expect(error.details.post).toMatchObject({ id: POST_ID, revision: 3 });
+  });
+});
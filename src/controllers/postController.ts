@@ -4,6 +4,28 @@ import axios from 'axios';
 import { getDatabase } from '../config/database';
 import { createError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
+import { diffField, diffText, unifiedDiff } from '../utils/diff';
+import { hashVisitor, isBotUserAgent } from '../utils/visitors';
+import { renderContent, ContentFormat, CONTENT_FORMATS } from '../utils/contentRenderer';
+import { formatSearchSnippet, SNIPPET_START, SNIPPET_STOP } from '../utils/searchSnippet';
+import { getSanitizePolicy } from '../utils/sanitize';
+import { countWords, generateExcerpt, getReadingTimeMinutes, htmlToText } from '../utils/contentStats';
+import { recordStatusTransition } from '../services/postTransitions';
+import { publishDuePosts } from '../services/scheduledPublisher';
+import { emitWebhookEvent, WebhookEvent } from '../services/webhooks';
+import { recordPostEvent } from '../services/outbox';
+import {
+  addPostContributor,
+  canReadPost,
+  canWritePost,
+  contributorCondition,
+  getPostContributors
+} from '../services/postContributors';
+import { POPULAR_WINDOWS } from '../services/popularity';
+import { fetchBlogSettings } from './blogSettingsController';
+import { DEFAULT_LOCALE, LOCALE_PATTERN } from '../utils/locales';
+import { getSiteUrl, getPostUrl } from '../utils/urls';
+import { getHreflangAlternates } from '../utils/headMetadata';
 
 // Helper function to validate tags exist and are active
 const validateTags = async (tagIds: string[]): Promise<void> => {
@@ -78,6 +100,390 @@ const validateTags = async (tagIds: string[]): Promise<void> => {
   await Promise.all(tagValidationPromises);
 };
 
+// Helper function to generate a slug that is not used by another post in the same locale,
+// either as its current slug or as one it used to have
+const generateUniqueSlug = async (client: any, source: string, locale: string, excludePostId?: string): Promise<string> => {
+  const baseSlug = slugify(source, { lower: true, strict: true, remove: /[*+~.()'"!:@]/g });
+  let slug = baseSlug;
+  let counter = 1;
+
+  while (true) {
+    const existingSlug = await client.query(`
+      SELECT id FROM posts WHERE slug = $1 AND locale = $3 AND ($2::uuid IS NULL OR id != $2)
+      UNION ALL
+      SELECT post_id FROM post_slug_history WHERE slug = $1 AND locale = $3 AND ($2::uuid IS NULL OR post_id != $2)
+    `, [slug, excludePostId || null, locale]);
+    if (existingSlug.rows.length === 0) break;
+    slug = `${baseSlug}-${counter}`;
+    counter++;
+  }
+
+  return slug;
+};
+
+// Helper function to remember a post's previous slug so old links keep resolving
+const recordSlugChange = async (
+  client: any,
+  postId: string,
+  oldSlug: string,
+  newSlug: string,
+  oldLocale: string,
+  newLocale: string = oldLocale
+): Promise<void> => {
+  // A locale change moves the URL even when the slug stays the same
+  if (!oldSlug || (oldSlug === newSlug && oldLocale === newLocale)) return;
+
+  // A post moving back to one of its earlier URLs no longer needs the redirect
+  await client.query(
+    'DELETE FROM post_slug_history WHERE post_id = $1 AND slug = $2 AND locale = $3',
+    [postId, newSlug, newLocale]
+  );
+  await client.query(`
+    INSERT INTO post_slug_history (post_id, slug, locale)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (locale, slug) DO NOTHING
+  `, [postId, oldSlug, oldLocale]);
+};
+
+// Helper function to find the translation group a new post joins, failing if the group
+// already has a post in that locale. Without a source post it starts a group of its own.
+const resolveTranslationGroup = async (client: any, translationOf: string | undefined, locale: string): Promise<string | null> => {
+  if (!translationOf) return null;
+
+  const sourceResult = await client.query(
+    'SELECT translation_group_id FROM posts WHERE id = $1 AND deleted_at IS NULL',
+    [translationOf]
+  );
+  if (sourceResult.rows.length === 0) {
+    throw createError('Post to translate not found', 404);
+  }
+
+  const groupId = sourceResult.rows[0].translation_group_id;
+  await assertLocaleFreeInGroup(client, groupId, locale);
+  return groupId;
+};
+
+// Helper function to reject a second post in the same locale within a translation group
+const assertLocaleFreeInGroup = async (client: any, groupId: string, locale: string, excludePostId?: string): Promise<void> => {
+  const existing = await client.query(`
+    SELECT id FROM posts
+    WHERE translation_group_id = $1 AND locale = $2 AND ($3::uuid IS NULL OR id != $3)
+  `, [groupId, locale, excludePostId || null]);
+
+  if (existing.rows.length > 0) {
+    throw createError(`This post already has a ${locale} translation`, 409, { postId: existing.rows[0].id });
+  }
+};
+
+// Helper function to store a full snapshot of a post - every editable field plus its
+// category and tag associations - as the next version. Overrides replace individual
+// snapshot fields, for callers that version content the post does not hold yet.
+const snapshotPostVersion = async (
+  client: any,
+  postId: string,
+  createdBy: string,
+  source: string,
+  changeSummary?: string | null,
+  overrides: { title?: string; content?: string; excerpt?: string } = {}
+) => {
+  const postResult = await client.query(`
+    SELECT title, slug, content, content_format, excerpt, featured_image_url, meta_title, meta_description
+    FROM posts
+    WHERE id = $1
+    FOR UPDATE
+  `, [postId]);
+
+  if (postResult.rows.length === 0) {
+    return null;
+  }
+
+  const post = { ...postResult.rows[0] };
+  for (const [field, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      post[field] = value;
+    }
+  }
+
+  const categoriesResult = await client.query(
+    'SELECT category_id FROM post_categories WHERE post_id = $1 ORDER BY created_at, category_id',
+    [postId]
+  );
+  const tagsResult = await client.query(
+    'SELECT tag_id FROM post_tags WHERE post_id = $1 ORDER BY created_at, tag_id',
+    [postId]
+  );
+
+  // Get next version number
+  const versionResult = await client.query(
+    'SELECT MAX(version_number) as max_version FROM post_versions WHERE post_id = $1',
+    [postId]
+  );
+  const nextVersion = (versionResult.rows[0].max_version || 0) + 1;
+
+  const result = await client.query(`
+    INSERT INTO post_versions (
+      post_id, title, slug, content, content_format, excerpt, featured_image_url, meta_title, meta_description,
+      category_ids, tag_ids, change_summary, source, version_number, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    RETURNING *
+  `, [
+    postId, post.title, post.slug, post.content, post.content_format, post.excerpt, post.featured_image_url,
+    post.meta_title, post.meta_description,
+    categoriesResult.rows.map((row: any) => row.category_id),
+    tagsResult.rows.map((row: any) => row.tag_id),
+    changeSummary || null, source, nextVersion, createdBy
+  ]);
+
+  return result.rows[0];
+};
+
+// Helper function to expose a post's revision as its entity tag
+const formatRevisionETag = (revision: number): string => `"${revision}"`;
+
+const setPostETag = (res: Response, post: any): void => {
+  if (post && post.revision !== undefined) {
+    res.set('ETag', formatRevisionETag(post.revision));
+  }
+};
+
+// Helper function to reject writes based on a stale copy of the post. Callers must hold
+// the row lock so the revision cannot move between this check and their UPDATE; on a
+// mismatch the transaction is rolled back before the 412 is thrown.
+const assertIfMatch = async (req: Request, client: any, postId: string, currentRevision: number): Promise<void> => {
+  const ifMatch = req.get('If-Match');
+  if (!ifMatch) return;
+
+  const tags = ifMatch.split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+  if (tags.includes('*') || tags.includes(formatRevisionETag(currentRevision))) return;
+
+  // Nothing has been written yet, so end the transaction first: the optional category and tag
+  // lookups may fail, and inside the transaction that would abort every query after them
+  await client.query('ROLLBACK');
+  const currentPost = await getPostWithRelations(getDatabase(), postId);
+  throw createError('Post has been modified since it was loaded', 412, {
+    currentRevision,
+    etag: formatRevisionETag(currentRevision),
+    post: currentPost
+  });
+};
+
+// Helper function to drop columns that only exist for the database's benefit
+const omitInternalColumns = (row: any) => {
+  const { search_vector, ...post } = row;
+  return post;
+};
+
+// A visitor's repeat views of a post within this window count once
+const VIEW_DEDUP_WINDOW_MINUTES = Number(process.env.VIEW_DEDUP_WINDOW_MINUTES) || 30;
+
+// view_count is unique views; raw_view_count also includes repeat views inside the window.
+// Both come from the totals the scheduler rolls up, joined in as pvt.
+const VIEW_COUNT = 'COALESCE(pvt.unique_views, 0)';
+const RAW_VIEW_COUNT = 'COALESCE(pvt.raw_views, 0)';
+
+// How much a shared tag or category counts towards relatedness
+const RELATED_TAG_WEIGHT = 3;
+const RELATED_CATEGORY_WEIGHT = 2;
+
+// Only live posts are recommended
+const LIVE_POST_CONDITIONS = `
+  p.status = 'published' AND p.deleted_at IS NULL
+  AND (p.expires_at IS NULL OR p.expires_at > CURRENT_TIMESTAMP)
+`;
+
+// Helper function to drop an expiry that has passed by the time a post goes live (`liveAt`, SQL),
+// otherwise it would be hidden and expired again straight away
+const clearPastExpiry = (liveAt: string = 'CURRENT_TIMESTAMP'): string =>
+  `expires_at = CASE WHEN expires_at <= ${liveAt} THEN NULL ELSE expires_at END`;
+
+// Helper function to count words and reading time from rendered HTML
+const getReadingStats = (html: string, wordsPerMinute: number) => {
+  const wordCount = countWords(htmlToText(html));
+  return { wordCount, readingTimeMinutes: getReadingTimeMinutes(wordCount, wordsPerMinute) };
+};
+
+// Helper function to pick the excerpt to store: a written one wins, an empty one is generated from the content
+const resolveExcerpt = (excerpt: string | null | undefined, html: string) => {
+  if (typeof excerpt === 'string' && excerpt.trim().length > 0) {
+    return { excerpt, excerptAuto: false };
+  }
+  return { excerpt: generateExcerpt(html) || null, excerptAuto: true };
+};
+
+// Helper function to fill in rendered HTML, reading stats and the excerpt for posts saved before they were computed on write,
+// using the same sanitizer policy and reading speed a save would
+const withRenderedContent = async (post: any) => {
+  const missingExcerpt = post && (!post.excerpt || !post.excerpt.trim());
+  if (!post || (post.content_html !== null && post.word_count !== null && !missingExcerpt)) {
+    return post;
+  }
+
+  const settings = await fetchBlogSettings();
+  if (post.content_html === null) {
+    const rendered = renderContent(post.content, post.content_format, getSanitizePolicy(settings));
+    post.content = rendered.source;
+    post.content_html = rendered.html;
+    post.toc = rendered.toc;
+  }
+  if (post.word_count === null) {
+    const stats = getReadingStats(post.content_html, settings.reading_words_per_minute);
+    post.word_count = stats.wordCount;
+    post.reading_time_minutes = stats.readingTimeMinutes;
+  }
+  if (missingExcerpt) {
+    post.excerpt = generateExcerpt(post.content_html) || null;
+    post.excerpt_auto = true;
+  }
+  return post;
+};
+
+// Listings leave out the content, except for posts saved before reading stats and excerpts were
+// computed on write, which bring it along so those can be filled in
+const LEGACY_LISTING_COLUMNS = `
+  CASE WHEN p.word_count IS NULL OR COALESCE(TRIM(p.excerpt), '') = '' THEN p.content END as legacy_content,
+  CASE WHEN p.word_count IS NULL OR COALESCE(TRIM(p.excerpt), '') = '' THEN p.content_html END as legacy_content_html,
+  p.content_format as legacy_content_format
+`;
+
+// Helper function to fill in reading stats and the excerpt for listed posts that predate them,
+// the same way withRenderedContent does for a single post
+const withListingStats = async (rows: any[]) => {
+  const settings = rows.some((row) => row.legacy_content != null) ? await fetchBlogSettings() : null;
+
+  return rows.map(({ legacy_content: content, legacy_content_html: contentHtml, legacy_content_format: format, ...post }: any) => {
+    if (settings && content != null) {
+      const html = contentHtml ?? renderContent(content, format, getSanitizePolicy(settings)).html;
+      if (post.word_count === null) {
+        const stats = getReadingStats(html, settings.reading_words_per_minute);
+        post.word_count = stats.wordCount;
+        post.reading_time_minutes = stats.readingTimeMinutes;
+      }
+      if (!post.excerpt || !post.excerpt.trim()) {
+        post.excerpt = generateExcerpt(html) || null;
+        post.excerpt_auto = true;
+      }
+    }
+    return post;
+  });
+};
+
+// Helper function to replace a listing row's raw search snippet with safe HTML
+const withSafeSearchSnippet = (row: any) => {
+  if (typeof row.search_snippet === 'string') {
+    row.search_snippet = formatSearchSnippet(row.search_snippet);
+  }
+  return row;
+};
+
+// Statuses an editor can publish a post straight from
+const PUBLISHABLE_STATUSES = ['draft', 'in_review', 'scheduled', 'archived'];
+
+// Statuses that have their own webhook event on top of post.created / post.updated
+const STATUS_WEBHOOK_EVENTS: Record<string, WebhookEvent> = {
+  published: 'post.published',
+  scheduled: 'post.scheduled',
+  archived: 'post.archived'
+};
+
+type CursorDirection = 'next' | 'prev';
+
+interface DecodedCursor {
+  sortField: string;
+  sortOrder: string;
+  value: string | null;
+  id: string;
+  direction: CursorDirection;
+}
+
+// Helper function to build an opaque cursor pointing at a row of a sorted listing
+const encodeCursor = (cursor: DecodedCursor): string => {
+  return Buffer.from(JSON.stringify({
+    s: cursor.sortField,
+    o: cursor.sortOrder,
+    v: cursor.value,
+    id: cursor.id,
+    d: cursor.direction
+  })).toString('base64url');
+};
+
+const decodeCursor = (cursor: string): DecodedCursor => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof decoded.id !== 'string' || !['next', 'prev'].includes(decoded.d)) {
+      throw new Error('Malformed cursor');
+    }
+    return {
+      sortField: decoded.s,
+      sortOrder: decoded.o,
+      value: decoded.v,
+      id: decoded.id,
+      direction: decoded.d
+    };
+  } catch (error) {
+    throw createError('Invalid pagination cursor', 400);
+  }
+};
+
+// Helper function to get the SQL expression a listing is keyed on in cursor mode.
+// Nullable timestamps are coalesced so they still compare inside a row-value comparison.
+const getPostSortKey = (sortField: string, searchQuery: string): string => {
+  switch (sortField) {
+    case 'view_count':
+      return VIEW_COUNT;
+    case 'relevance':
+      return `ts_rank_cd(p.search_vector, ${searchQuery})`;
+    case 'published_at':
+    case 'scheduled_at':
+      return `COALESCE(p.${sortField}, '-infinity'::timestamp)`;
+    default:
+      return `p.${sortField}`;
+  }
+};
+
+// Helper function to trim the look-ahead row from a cursor query and work out the
+// cursors for the neighbouring pages. Rows must carry a cursor_value column.
+const buildCursorPage = (
+  rows: any[],
+  limit: number,
+  direction: CursorDirection,
+  hasCursor: boolean,
+  sortField: string,
+  sortOrder: string
+) => {
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  if (direction === 'prev') {
+    pageRows.reverse();
+  }
+
+  const hasNext = direction === 'next' ? hasMore : hasCursor;
+  const hasPrev = direction === 'next' ? hasCursor : hasMore;
+
+  const cursorFor = (row: any, cursorDirection: CursorDirection) => encodeCursor({
+    sortField,
+    sortOrder,
+    value: row.cursor_value,
+    id: row.id,
+    direction: cursorDirection
+  });
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    rows: pageRows.map(({ cursor_value, ...row }) => row),
+    pagination: {
+      mode: 'cursor',
+      limit,
+      hasNext,
+      hasPrev,
+      nextCursor: hasNext && last ? cursorFor(last, 'next') : null,
+      prevCursor: hasPrev && first ? cursorFor(first, 'prev') : null
+    }
+  };
+};
+
 // Helper function to get post with all relationships
 const getPostWithRelations = async (client: any, postId: string) => {
   const postResult = await client.query(`
@@ -90,7 +496,7 @@ const getPostWithRelations = async (client: any, postId: string) => {
     return null;
   }
 
-  const post = postResult.rows[0];
+  const post = await withRenderedContent(omitInternalColumns(postResult.rows[0]));
 
   // Get categories (if category service is available)
   try {
@@ -118,14 +524,17 @@ const getPostWithRelations = async (client: any, postId: string) => {
     post.tags = [];
   }
 
-  // Get view count
+  // Get view counts
   const viewResult = await client.query(`
-    SELECT COUNT(*) as view_count
-    FROM post_views 
+    SELECT unique_views, raw_views
+    FROM post_view_totals
     WHERE post_id = $1
   `, [postId]);
 
-  post.view_count = parseInt(viewResult.rows[0].view_count);
+  post.view_count = viewResult.rows.length > 0 ? viewResult.rows[0].unique_views : 0;
+  post.raw_view_count = viewResult.rows.length > 0 ? viewResult.rows[0].raw_views : 0;
+
+  post.contributors = await getPostContributors(client, postId);
 
   return post;
 };
@@ -136,10 +545,13 @@ export const getPosts = async (req: Request, res: Response, next: NextFunction):
     const { 
       page = 1, 
       limit = 10, 
+      cursor,
+      paginate,
       status, 
       authorId, 
       categoryId, 
       tagId, 
+      locale,
       search,
       sortBy = 'published_at',
       sortOrder = 'desc',
@@ -149,17 +561,22 @@ export const getPosts = async (req: Request, res: Response, next: NextFunction):
     // Validate pagination parameters
     const pageNum = Math.max(1, Number(page));
     const limitNum = Math.min(100, Math.max(1, Number(limit)));
-
-    let query = `
-      SELECT p.id, p.title, p.slug, p.excerpt, p.author_id, p.status, 
-             p.featured_image_url, p.meta_title, p.meta_description,
-             p.published_at, p.scheduled_at, p.created_at, p.updated_at,
-             COUNT(pv.id) as view_count
-      FROM posts p
-      LEFT JOIN post_views pv ON p.id = pv.post_id
+    const useCursor = paginate === 'cursor' || cursor !== undefined;
+
+    let selectColumns = `
+      p.id, p.title, p.slug, p.locale, p.translation_group_id, p.excerpt, p.excerpt_auto, p.author_id, p.status, 
+      p.featured_image_url, p.meta_title, p.meta_description, p.word_count, p.reading_time_minutes,
+      p.published_at, p.scheduled_at, p.expires_at, p.created_at, p.updated_at,
+      ${VIEW_COUNT} as view_count, ${RAW_VIEW_COUNT} as raw_view_count,
+      ${LEGACY_LISTING_COLUMNS}
     `;
     
-    const conditions: string[] = [];
+    // Trashed posts only show up in the trash listing, and published posts drop out
+    // as soon as they expire rather than when the scheduler next archives them
+    const conditions: string[] = [
+      'p.deleted_at IS NULL',
+      `(p.status <> 'published' OR p.expires_at IS NULL OR p.expires_at > CURRENT_TIMESTAMP)`
+    ];
     const params: any[] = [];
     let paramCount = 0;
 
@@ -169,14 +586,13 @@ export const getPosts = async (req: Request, res: Response, next: NextFunction):
       conditions.push(`p.status = $${paramCount}`);
       params.push(status);
     } else if (!includeDrafts) {
-      paramCount++;
       conditions.push(`p.status = 'published'`);
     }
 
-    // Author filter
+    // Author filter - matches every post the user is credited on, not just their own
     if (authorId) {
       paramCount++;
-      conditions.push(`p.author_id = $${paramCount}`);
+      conditions.push(contributorCondition('p', `$${paramCount}`));
       params.push(authorId);
     }
 
@@ -194,32 +610,102 @@ export const getPosts = async (req: Request, res: Response, next: NextFunction):
       params.push(tagId);
     }
 
-    // Search filter - improved search
-    if (search) {
+    // Locale filter
+    if (locale) {
       paramCount++;
-      conditions.push(`(
-        p.title ILIKE $${paramCount} OR 
-        p.content ILIKE $${paramCount} OR 
-        p.excerpt ILIKE $${paramCount} OR
-        p.meta_title ILIKE $${paramCount} OR
-        p.meta_description ILIKE $${paramCount}
-      )`);
-      params.push(`%${search}%`);
+      conditions.push(`p.locale = $${paramCount}`);
+      params.push(locale);
     }
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
-    }
+    // Search filter - full-text match against the weighted search_vector column
+    let searchQuery = '';
+    if (search) {
+      paramCount++;
+      searchQuery = `websearch_to_tsquery('english', $${paramCount})`;
+      conditions.push(`p.search_vector @@ ${searchQuery}`);
+      params.push(search);
 
-    query += ' GROUP BY p.id';
+      selectColumns += `,
+        ts_rank_cd(p.search_vector, ${searchQuery}) as search_rank,
+        ts_headline('english', regexp_replace(COALESCE(p.content_html, p.content), '<[^>]*>', ' ', 'g'), ${searchQuery},
+          'StartSel=${SNIPPET_START}, StopSel=${SNIPPET_STOP}, MaxFragments=2, MaxWords=30, MinWords=10') as search_snippet
+      `;
+    }
 
     // Enhanced sorting
-    const validSortFields = ['created_at', 'updated_at', 'published_at', 'scheduled_at', 'title', 'view_count'];
-    const sortField = validSortFields.includes(sortBy as string) ? sortBy : 'published_at';
+    const validSortFields = ['created_at', 'updated_at', 'published_at', 'scheduled_at', 'title', 'view_count', 'relevance'];
+    let sortField = validSortFields.includes(sortBy as string) ? sortBy as string : 'published_at';
     const order = sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    // Relevance only means something when there is a search term to rank against
+    if (sortField === 'relevance' && !search) {
+      sortField = 'published_at';
+    }
+
+    if (useCursor) {
+      const sortKey = getPostSortKey(sortField, searchQuery);
+      selectColumns += `, (${sortKey})::text as cursor_value`;
+
+      let query = `
+        SELECT ${selectColumns}
+        FROM posts p
+        LEFT JOIN post_view_totals pvt ON pvt.post_id = p.id
+      `;
+
+      const cursorConditions: string[] = [];
+      let direction: CursorDirection = 'next';
+
+      if (cursor) {
+        const decoded = decodeCursor(cursor as string);
+        if (decoded.sortField !== sortField || decoded.sortOrder !== order) {
+          throw createError('Cursor does not match the requested sort order', 400);
+        }
+        direction = decoded.direction;
+
+        // Walking backwards flips the comparison, and the rows are reversed again below
+        const comparison = (order === 'DESC') === (direction === 'next') ? '<' : '>';
+        cursorConditions.push(`(${sortKey}, p.id) ${comparison} ($${paramCount + 1}, $${paramCount + 2})`);
+        params.push(decoded.value, decoded.id);
+        paramCount += 2;
+      }
+
+      const whereConditions = [...conditions, ...cursorConditions];
+      if (whereConditions.length > 0) {
+        query += ' WHERE ' + whereConditions.join(' AND ');
+      }
+
+      const queryOrder = direction === 'next' ? order : (order === 'DESC' ? 'ASC' : 'DESC');
+      query += ` ORDER BY ${sortKey} ${queryOrder}, p.id ${queryOrder}`;
+
+      // Fetch one extra row to find out whether there is another page
+      paramCount++;
+      query += ` LIMIT $${paramCount}`;
+      params.push(limitNum + 1);
+
+      const result = await db.query(query, params);
+      const cursorPage = buildCursorPage((await withListingStats(result.rows)).map(withSafeSearchSnippet), limitNum, direction, !!cursor, sortField, order);
+
+      res.json({
+        posts: cursorPage.rows,
+        pagination: cursorPage.pagination
+      });
+      return;
+    }
+
+    let query = `
+      SELECT ${selectColumns}
+      FROM posts p
+      LEFT JOIN post_view_totals pvt ON pvt.post_id = p.id
+    `;
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
     
     if (sortField === 'view_count') {
-      query += ` ORDER BY COUNT(pv.id) ${order}, p.published_at DESC`;
+      query += ` ORDER BY ${VIEW_COUNT} ${order}, p.published_at DESC`;
+    } else if (sortField === 'relevance') {
+      query += ` ORDER BY search_rank ${order}, p.published_at DESC`;
     } else {
       query += ` ORDER BY p.${sortField} ${order}`;
     }
@@ -250,7 +736,7 @@ export const getPosts = async (req: Request, res: Response, next: NextFunction):
     const totalPages = Math.ceil(total / limitNum);
 
     res.json({
-      posts: result.rows,
+      posts: (await withListingStats(result.rows)).map(withSafeSearchSnippet),
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -266,24 +752,101 @@ export const getPosts = async (req: Request, res: Response, next: NextFunction):
   }
 };
 
+// Trending and popular posts, served from the popularity table the scheduler keeps up to date
+export const getTrendingPosts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const db = getDatabase();
+    const { mode = 'trending', days, categoryId, tagId, locale, limit = 10 } = req.query;
+    const limitNum = Math.min(50, Math.max(1, Number(limit) || 10));
+
+    let scoreColumn: string;
+    let windowDays: number | null = null;
+
+    if (mode === 'trending') {
+      scoreColumn = 'pp.trending_score';
+    } else if (mode === 'popular') {
+      // Without days the popular listing is all-time
+      if (days === undefined) {
+        scoreColumn = 'pp.views_all_time';
+      } else {
+        windowDays = Number(days);
+        if (!POPULAR_WINDOWS[windowDays]) {
+          throw createError(`days must be one of: ${Object.keys(POPULAR_WINDOWS).join(', ')}`, 400);
+        }
+        scoreColumn = `pp.${POPULAR_WINDOWS[windowDays]}`;
+      }
+    } else {
+      throw createError('mode must be trending or popular', 400);
+    }
+
+    const conditions: string[] = [
+      `p.status = 'published'`,
+      'p.deleted_at IS NULL',
+      '(p.expires_at IS NULL OR p.expires_at > CURRENT_TIMESTAMP)',
+      `${scoreColumn} > 0`
+    ];
+    const params: any[] = [];
+
+    // Category filter
+    if (categoryId) {
+      params.push(categoryId);
+      conditions.push(`EXISTS (SELECT 1 FROM post_categories pc WHERE pc.post_id = p.id AND pc.category_id = $${params.length})`);
+    }
+
+    // Tag filter
+    if (tagId) {
+      params.push(tagId);
+      conditions.push(`EXISTS (SELECT 1 FROM post_tags pt WHERE pt.post_id = p.id AND pt.tag_id = $${params.length})`);
+    }
+
+    // Locale filter
+    if (locale) {
+      params.push(locale);
+      conditions.push(`p.locale = $${params.length}`);
+    }
+
+    params.push(limitNum);
+
+    const result = await db.query(`
+      SELECT p.id, p.title, p.slug, p.locale, p.excerpt, p.author_id, p.featured_image_url, p.published_at,
+             p.word_count, p.reading_time_minutes, ${scoreColumn} as score, pp.views_all_time as view_count, pp.computed_at,
+             ${LEGACY_LISTING_COLUMNS}
+      FROM post_popularity pp
+      JOIN posts p ON p.id = pp.post_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${scoreColumn} DESC, p.published_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json({
+      mode,
+      days: windowDays,
+      posts: (await withListingStats(result.rows)).map(({ computed_at, ...post }: any) => post),
+      computedAt: result.rows.length > 0 ? result.rows[0].computed_at : null
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getPostById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { id } = req.params;
     const db = getDatabase();
 
     const result = await db.query(`
-      SELECT p.*, COUNT(pv.id) as view_count
+      SELECT p.*, ${VIEW_COUNT} as view_count, ${RAW_VIEW_COUNT} as raw_view_count
       FROM posts p
-      LEFT JOIN post_views pv ON p.id = pv.post_id
-      WHERE p.id = $1
-      GROUP BY p.id
+      LEFT JOIN post_view_totals pvt ON pvt.post_id = p.id
+      WHERE p.id = $1 AND p.deleted_at IS NULL
     `, [id]);
 
     if (result.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    const post = result.rows[0];
+    const post = await withRenderedContent(omitInternalColumns(result.rows[0]));
     
     // Get categories
     try {
@@ -311,12 +874,163 @@ export const getPostById = async (req: Request, res: Response, next: NextFunctio
       post.tags = [];
     }
 
+    post.contributors = await getPostContributors(db, id);
+
+    setPostETag(res, post);
     res.json({ post });
   } catch (error) {
     next(error);
   }
 };
 
+export const getPostBySlug = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { slug } = req.params;
+    // Slugs are only unique within a locale
+    const locale = typeof req.query.locale === 'string' ? req.query.locale : DEFAULT_LOCALE;
+    const db = getDatabase();
+
+    const result = await db.query(
+      'SELECT id FROM posts WHERE slug = $1 AND locale = $2 AND deleted_at IS NULL',
+      [slug, locale]
+    );
+
+    if (result.rows.length > 0) {
+      const post = await getPostWithRelations(db, result.rows[0].id);
+      setPostETag(res, post);
+      res.json({ post });
+      return;
+    }
+
+    // Fall back to slugs the post used to have and point the client at the current one
+    const historyResult = await db.query(`
+      SELECT p.id, p.slug, p.locale
+      FROM post_slug_history psh
+      JOIN posts p ON p.id = psh.post_id
+      WHERE psh.slug = $1 AND psh.locale = $2 AND p.deleted_at IS NULL
+    `, [slug, locale]);
+
+    if (historyResult.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    const { id, slug: currentSlug, locale: currentLocale } = historyResult.rows[0];
+    const localeQuery = currentLocale === DEFAULT_LOCALE ? '' : `?locale=${encodeURIComponent(currentLocale)}`;
+    const location = `${req.baseUrl}/slug/${encodeURIComponent(currentSlug)}${localeQuery}`;
+
+    res.status(301).location(location).json({
+      redirect: true,
+      postId: id,
+      slug: currentSlug,
+      location,
+      message: `Post has moved to ${currentSlug}`
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPostSlugHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const postResult = await db.query('SELECT slug FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
+    if (postResult.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    const result = await db.query(`
+      SELECT slug, created_at
+      FROM post_slug_history
+      WHERE post_id = $1
+      ORDER BY created_at DESC
+    `, [id]);
+
+    res.json({
+      currentSlug: postResult.rows[0].slug,
+      previousSlugs: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getRelatedPosts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const limitNum = Math.min(20, Math.max(1, Number(req.query.limit) || 5));
+    const db = getDatabase();
+
+    const postResult = await db.query('SELECT id, title, excerpt, locale FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
+    if (postResult.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    // Recommendations stay in the reader's language
+    const { locale } = postResult.rows[0];
+
+    const relatedColumns = `
+      p.id, p.title, p.slug, p.excerpt, p.author_id, p.featured_image_url, p.published_at,
+      p.word_count, p.reading_time_minutes, ${LEGACY_LISTING_COLUMNS}
+    `;
+
+    // Rank by weighted tag and category overlap
+    const overlapResult = await db.query(`
+      SELECT ${relatedColumns},
+             (
+               $2 * (SELECT COUNT(*) FROM post_tags pt
+                     JOIN post_tags source_pt ON source_pt.tag_id = pt.tag_id AND source_pt.post_id = $1
+                     WHERE pt.post_id = p.id) +
+               $3 * (SELECT COUNT(*) FROM post_categories pc
+                     JOIN post_categories source_pc ON source_pc.category_id = pc.category_id AND source_pc.post_id = $1
+                     WHERE pc.post_id = p.id)
+             )::float as score
+      FROM posts p
+      WHERE ${LIVE_POST_CONDITIONS}
+        AND p.id <> $1
+        AND p.locale = $5
+        AND (
+          EXISTS (SELECT 1 FROM post_tags pt JOIN post_tags source_pt ON source_pt.tag_id = pt.tag_id
+                  WHERE pt.post_id = p.id AND source_pt.post_id = $1)
+          OR EXISTS (SELECT 1 FROM post_categories pc JOIN post_categories source_pc ON source_pc.category_id = pc.category_id
+                     WHERE pc.post_id = p.id AND source_pc.post_id = $1)
+        )
+      ORDER BY score DESC, p.published_at DESC
+      LIMIT $4
+    `, [id, RELATED_TAG_WEIGHT, RELATED_CATEGORY_WEIGHT, limitNum, locale]);
+
+    const related = overlapResult.rows.map((row: any) => ({ ...row, match: 'taxonomy' }));
+
+    // Not enough overlap - fill up with posts whose text matches any word of the title or excerpt
+    if (related.length < limitNum) {
+      const source = postResult.rows[0];
+      const excludeIds = [id, ...related.map((row: any) => row.id)];
+
+      const textResult = await db.query(`
+        WITH q AS (
+          SELECT NULLIF(replace(plainto_tsquery('english', $1)::text, '&', '|'), '')::tsquery as query
+        )
+        SELECT ${relatedColumns}, ts_rank_cd(p.search_vector, q.query) as score
+        FROM posts p, q
+        WHERE ${LIVE_POST_CONDITIONS}
+          AND q.query IS NOT NULL
+          AND p.search_vector @@ q.query
+          AND NOT (p.id = ANY($2::uuid[]))
+          AND p.locale = $4
+        ORDER BY score DESC, p.published_at DESC
+        LIMIT $3
+      `, [`${source.title} ${source.excerpt || ''}`, excludeIds, limitNum - related.length, locale]);
+
+      related.push(...textResult.rows.map((row: any) => ({ ...row, match: 'text' })));
+    }
+
+    res.json({ posts: await withListingStats(related) });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const createPost = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   const client = await getDatabase().connect();
   
@@ -325,7 +1039,9 @@ export const createPost = async (req: AuthRequest, res: Response, next: NextFunc
     
     const { 
       title, 
+      slug: requestedSlug,
       content, 
+      contentFormat = 'html',
       excerpt, 
       featuredImageUrl, 
       metaTitle, 
@@ -333,7 +1049,12 @@ export const createPost = async (req: AuthRequest, res: Response, next: NextFunc
       categories = [], 
       tags = [],
       status = 'draft',
-      scheduledAt
+      scheduledAt,
+      expiresAt,
+      expiryStatus = 'archived',
+      locale = DEFAULT_LOCALE,
+      translationOf,
+      contributors = []
     } = req.body;
 
     // Validate required fields
@@ -350,38 +1071,61 @@ export const createPost = async (req: AuthRequest, res: Response, next: NextFunc
       throw createError('Title must be 500 characters or less', 400);
     }
 
-    // Generate unique slug
-    const baseSlug = slugify(title, { lower: true, strict: true, remove: /[*+~.()'"!:@]/g });
-    let slug = baseSlug;
-    let counter = 1;
-
-    while (true) {
-      const existingPost = await client.query('SELECT id FROM posts WHERE slug = $1', [slug]);
-      if (existingPost.rows.length === 0) break;
-      slug = `${baseSlug}-${counter}`;
-      counter++;
+    if (expiresAt && scheduledAt && new Date(expiresAt) <= new Date(scheduledAt)) {
+      throw createError('Expiry date must be after the scheduled date', 400);
     }
 
+    // Generate unique slug
+    const slug = await generateUniqueSlug(client, requestedSlug || title, locale);
+    const translationGroupId = await resolveTranslationGroup(client, translationOf, locale);
+
     // Validate status
     const validStatuses = ['draft', 'published', 'scheduled', 'archived'];
     const postStatus = validStatuses.includes(status) ? status : 'draft';
 
+    // Going live has to pass editorial review unless an editor creates the post
+    if (['published', 'scheduled'].includes(postStatus) && !['admin', 'editor'].includes(req.user?.role || '')) {
+      throw createError('Posts must be submitted for review and approved by an editor before publishing', 403);
+    }
+
+    // HTML is stored sanitized; the report tells the editor what the policy removed
+    const settings = await fetchBlogSettings();
+    const rendered = renderContent(content, contentFormat, getSanitizePolicy(settings));
+    if (rendered.source.trim().length === 0) {
+      throw createError('Content is empty after sanitization', 400, { sanitization: rendered.sanitization });
+    }
+
+    const stats = getReadingStats(rendered.html, settings.reading_words_per_minute);
+    const postExcerpt = resolveExcerpt(excerpt, rendered.html);
+
     // Create post
     const authorId = req.user?.id || '00000000-0000-0000-0000-000000000001'; // Default user ID for development
     const result = await client.query(`
       INSERT INTO posts (
-        title, slug, content, excerpt, author_id, status,
-        featured_image_url, meta_title, meta_description, scheduled_at
+        title, slug, content, content_format, content_html, toc, excerpt, excerpt_auto, author_id, status,
+        featured_image_url, meta_title, meta_description, scheduled_at,
+        expires_at, expiry_status, word_count, reading_time_minutes, locale, translation_group_id
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19,
+              COALESCE($20::uuid, gen_random_uuid()))
       RETURNING *
     `, [
-      title, slug, content, excerpt, authorId, postStatus,
-      featuredImageUrl, metaTitle, metaDescription, scheduledAt
+      title, slug, rendered.source, contentFormat, rendered.html, JSON.stringify(rendered.toc),
+      postExcerpt.excerpt, postExcerpt.excerptAuto, authorId, postStatus,
+      featuredImageUrl, metaTitle, metaDescription, scheduledAt,
+      expiresAt, expiryStatus, stats.wordCount, stats.readingTimeMinutes, locale, translationGroupId
     ]);
 
     const post = result.rows[0];
 
+    // Credit the creator as the primary author, along with anyone writing with them
+    await addPostContributor(client, post.id, authorId, 'author', authorId);
+    for (const contributor of contributors) {
+      if (contributor.userId !== authorId) {
+        await addPostContributor(client, post.id, contributor.userId, contributor.role, authorId);
+      }
+    }
+
     // Set published_at if status is published
     if (postStatus === 'published') {
       await client.query(
@@ -418,19 +1162,29 @@ export const createPost = async (req: AuthRequest, res: Response, next: NextFunc
       }
     }
 
+    await recordStatusTransition(client, post.id, null, postStatus, 'create', authorId);
+
     // Create initial version
-    await client.query(`
-      INSERT INTO post_versions (post_id, title, content, excerpt, version_number, created_by)
-      VALUES ($1, $2, $3, $4, 1, $5)
-    `, [post.id, title, content, excerpt, authorId]);
+    await snapshotPostVersion(client, post.id, authorId, 'createPost', 'Initial version');
+
+    await recordPostEvent(client, 'post.created', post.id, authorId);
+    if (STATUS_WEBHOOK_EVENTS[postStatus]) {
+      await recordPostEvent(client, STATUS_WEBHOOK_EVENTS[postStatus], post.id, authorId);
+    }
 
     await client.query('COMMIT');
 
     // Fetch the complete post with relationships
     const completePost = await getPostWithRelations(client, post.id);
+
+    await emitWebhookEvent('post.created', { post: completePost });
+    if (STATUS_WEBHOOK_EVENTS[postStatus]) {
+      await emitWebhookEvent(STATUS_WEBHOOK_EVENTS[postStatus], { post: completePost });
+    }
     
     res.status(201).json({ 
       post: completePost,
+      sanitization: rendered.sanitization,
       message: `Post created successfully as ${postStatus}`
     });
   } catch (error) {
@@ -451,7 +1205,9 @@ export const updatePost = async (req: AuthRequest, res: Response, next: NextFunc
     const { id } = req.params;
     const { 
       title, 
+      slug: requestedSlug,
       content, 
+      contentFormat,
       excerpt, 
       featuredImageUrl, 
       metaTitle, 
@@ -459,57 +1215,56 @@ export const updatePost = async (req: AuthRequest, res: Response, next: NextFunc
       categories, 
       tags,
       status,
-      createVersion = true
+      expiresAt,
+      expiryStatus,
+      changeSummary,
+      createVersion = true,
+      locale
     } = req.body;
 
     // Check if post exists and user has permission
-    const existingPost = await client.query('SELECT author_id, status FROM posts WHERE id = $1', [id]);
+    const existingPost = await client.query('SELECT author_id, status, slug, locale, translation_group_id, content, content_format, excerpt, excerpt_auto, revision FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
     if (existingPost.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    // Allow update if user is the author OR is admin/editor
-    const isAuthor = existingPost.rows[0].author_id === req.user!.id;
+    // Allow update if user is a contributor with write rights OR is admin/editor
     const isAdminOrEditor = ['admin', 'editor'].includes(req.user!.role);
     
-    if (!isAuthor && !isAdminOrEditor) {
+    if (!(await canWritePost(client, id, req.user!))) {
       throw createError('Not authorized to update this post', 403);
     }
 
+    await assertIfMatch(req, client, id, existingPost.rows[0].revision);
+
+    // Going live has to pass editorial review unless an editor makes the change
+    const previousStatus = existingPost.rows[0].status;
+    const statusChanged = status !== undefined && status !== previousStatus;
+    if (statusChanged && ['published', 'scheduled'].includes(status) && !isAdminOrEditor) {
+      throw createError('Posts must be approved by an editor before they are published or scheduled', 403);
+    }
+
     // Create version before update if requested
-    if (createVersion && (title || content || excerpt)) {
-      const currentPost = await client.query('SELECT title, content, excerpt FROM posts WHERE id = $1', [id]);
-      if (currentPost.rows.length > 0) {
-        const current = currentPost.rows[0];
-        
-        // Get next version number
-        const versionResult = await client.query(
-          'SELECT MAX(version_number) as max_version FROM post_versions WHERE post_id = $1',
-          [id]
-        );
-        const nextVersion = (versionResult.rows[0].max_version || 0) + 1;
+    const editsContent = [
+      title, requestedSlug, content, contentFormat, excerpt, featuredImageUrl, metaTitle, metaDescription, categories, tags
+    ].some((value) => value !== undefined);
 
-        // Create version
-        await client.query(`
-          INSERT INTO post_versions (post_id, title, content, excerpt, version_number, created_by)
-          VALUES ($1, $2, $3, $4, $5, $6)
-        `, [id, current.title, current.content, current.excerpt, nextVersion, req.user!.id]);
-      }
+    if (createVersion && editsContent) {
+      await snapshotPostVersion(client, id, req.user!.id, 'updatePost', changeSummary);
     }
 
-    // Generate new slug if title changed
-    let slug = existingPost.rows[0].slug;
-    if (title) {
-      const baseSlug = slugify(title, { lower: true, strict: true, remove: /[*+~.()'"!:@]/g });
-      slug = baseSlug;
-      let counter = 1;
+    // Moving to another locale must not clash with a translation already in that locale
+    const previousLocale = existingPost.rows[0].locale;
+    const postLocale = locale ?? previousLocale;
+    if (postLocale !== previousLocale) {
+      await assertLocaleFreeInGroup(client, existingPost.rows[0].translation_group_id, postLocale, id);
+    }
 
-      while (true) {
-        const existingSlug = await client.query('SELECT id FROM posts WHERE slug = $1 AND id != $2', [slug, id]);
-        if (existingSlug.rows.length === 0) break;
-        slug = `${baseSlug}-${counter}`;
-        counter++;
-      }
+    // Use the requested slug, or generate a new one if title or locale changed
+    const previousSlug = existingPost.rows[0].slug;
+    let slug = previousSlug;
+    if (requestedSlug || title || postLocale !== previousLocale) {
+      slug = await generateUniqueSlug(client, requestedSlug || title || previousSlug, postLocale, id);
     }
 
     // Update post
@@ -522,16 +1277,60 @@ export const updatePost = async (req: AuthRequest, res: Response, next: NextFunc
       updateFields.push(`title = $${paramCount}`);
       updateValues.push(title);
     }
-    // Always update content if provided (even if empty string)
-    if (content !== undefined && content !== null) {
-      paramCount++;
-      updateFields.push(`content = $${paramCount}`);
-      updateValues.push(content);
+    // Re-render whenever the content or the way it is written changes; HTML content is stored sanitized.
+    // A generated excerpt follows the content until someone writes one by hand.
+    const contentChanged = (content !== undefined && content !== null) || contentFormat !== undefined;
+    const excerptCleared = excerpt !== undefined && !(typeof excerpt === 'string' && excerpt.trim().length > 0);
+    const hadAutoExcerpt = existingPost.rows[0].excerpt_auto || !existingPost.rows[0].excerpt;
+    const regenerateExcerpt = excerptCleared || (excerpt === undefined && contentChanged && hadAutoExcerpt);
+
+    let sanitization = null;
+    if (contentChanged || regenerateExcerpt) {
+      const settings = await fetchBlogSettings();
+      const rendered = renderContent(
+        content ?? existingPost.rows[0].content,
+        contentFormat ?? existingPost.rows[0].content_format,
+        getSanitizePolicy(settings)
+      );
+
+      if (contentChanged) {
+        sanitization = rendered.sanitization;
+        const stats = getReadingStats(rendered.html, settings.reading_words_per_minute);
+
+        paramCount++;
+        updateFields.push(`content = $${paramCount}`);
+        updateValues.push(rendered.source);
+        if (contentFormat !== undefined) {
+          paramCount++;
+          updateFields.push(`content_format = $${paramCount}`);
+          updateValues.push(contentFormat);
+        }
+        paramCount++;
+        updateFields.push(`content_html = $${paramCount}`);
+        updateValues.push(rendered.html);
+        paramCount++;
+        updateFields.push(`toc = $${paramCount}`);
+        updateValues.push(JSON.stringify(rendered.toc));
+        paramCount++;
+        updateFields.push(`word_count = $${paramCount}`);
+        updateValues.push(stats.wordCount);
+        paramCount++;
+        updateFields.push(`reading_time_minutes = $${paramCount}`);
+        updateValues.push(stats.readingTimeMinutes);
+      }
+
+      if (regenerateExcerpt) {
+        paramCount++;
+        updateFields.push(`excerpt = $${paramCount}`);
+        updateValues.push(resolveExcerpt(null, rendered.html).excerpt);
+        updateFields.push('excerpt_auto = TRUE');
+      }
     }
-    if (excerpt !== undefined) {
+    if (excerpt !== undefined && !excerptCleared) {
       paramCount++;
       updateFields.push(`excerpt = $${paramCount}`);
       updateValues.push(excerpt);
+      updateFields.push('excerpt_auto = FALSE');
     }
     if (featuredImageUrl !== undefined) {
       paramCount++;
@@ -560,12 +1359,34 @@ export const updatePost = async (req: AuthRequest, res: Response, next: NextFunc
       }
     }
 
-    if (title) {
+    // expiresAt can be cleared with null
+    if (expiresAt !== undefined) {
+      paramCount++;
+      updateFields.push(`expires_at = $${paramCount}`);
+      updateValues.push(expiresAt);
+    } else if (status === 'published') {
+      updateFields.push(clearPastExpiry());
+    } else if (status === 'scheduled') {
+      updateFields.push(clearPastExpiry('COALESCE(scheduled_at, CURRENT_TIMESTAMP)'));
+    }
+    if (expiryStatus !== undefined) {
+      paramCount++;
+      updateFields.push(`expiry_status = $${paramCount}`);
+      updateValues.push(expiryStatus);
+    }
+
+    if (slug !== previousSlug) {
       paramCount++;
       updateFields.push(`slug = $${paramCount}`);
       updateValues.push(slug);
     }
 
+    if (postLocale !== previousLocale) {
+      paramCount++;
+      updateFields.push(`locale = $${paramCount}`);
+      updateValues.push(postLocale);
+    }
+
     // updated_at is also a SQL function, not a parameter
     updateFields.push('updated_at = CURRENT_TIMESTAMP');
     
@@ -580,6 +1401,12 @@ export const updatePost = async (req: AuthRequest, res: Response, next: NextFunc
       RETURNING *
     `, updateValues);
 
+    await recordSlugChange(client, id, previousSlug, slug, previousLocale, postLocale);
+
+    if (statusChanged) {
+      await recordStatusTransition(client, id, previousStatus, status, 'update', req.user!.id);
+    }
+
     // Update categories
     if (categories !== undefined) {
       await client.query('DELETE FROM post_categories WHERE post_id = $1', [id]);
@@ -613,13 +1440,25 @@ export const updatePost = async (req: AuthRequest, res: Response, next: NextFunc
       }
     }
 
+    await recordPostEvent(client, 'post.updated', id, req.user!.id);
+    if (statusChanged && STATUS_WEBHOOK_EVENTS[status]) {
+      await recordPostEvent(client, STATUS_WEBHOOK_EVENTS[status], id, req.user!.id);
+    }
+
     await client.query('COMMIT');
 
     // Fetch the complete post with relationships
     const completePost = await getPostWithRelations(client, id);
+
+    await emitWebhookEvent('post.updated', { post: completePost });
+    if (statusChanged && STATUS_WEBHOOK_EVENTS[status]) {
+      await emitWebhookEvent(STATUS_WEBHOOK_EVENTS[status], { post: completePost });
+    }
     
+    setPostETag(res, completePost);
     res.json({ 
       post: completePost,
+      sanitization,
       message: 'Post updated successfully'
     });
   } catch (error) {
@@ -640,28 +1479,30 @@ export const deletePost = async (req: AuthRequest, res: Response, next: NextFunc
     const { id } = req.params;
 
     // Check if post exists and user has permission
-    const existingPost = await client.query('SELECT author_id FROM posts WHERE id = $1', [id]);
+    const existingPost = await client.query('SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (existingPost.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    const isAuthor = existingPost.rows[0].author_id === req.user!.id;
-    const isAdminOrEditor = ['admin', 'editor'].includes(req.user!.role);
-    
-    if (!isAuthor && !isAdminOrEditor) {
+    if (!(await canWritePost(client, id, req.user!))) {
       throw createError('Not authorized to delete this post', 403);
     }
 
-    // Delete related records explicitly (though CASCADE should handle this)
-    // This ensures clean deletion even if foreign keys aren't set up correctly
-    await client.query('DELETE FROM post_views WHERE post_id = $1', [id]);
-    await client.query('DELETE FROM post_tags WHERE post_id = $1', [id]);
-    await client.query('DELETE FROM post_categories WHERE post_id = $1', [id]);
-    await client.query('DELETE FROM post_versions WHERE post_id = $1', [id]);
-    await client.query('DELETE FROM posts WHERE id = $1', [id]);
+    // Move the post to the trash; the scheduler purges it once the retention period is over
+    const result = await client.query(`
+      UPDATE posts
+      SET deleted_at = CURRENT_TIMESTAMP, deleted_by = $1
+      WHERE id = $2
+      RETURNING id, title, slug, status, deleted_at, deleted_by
+    `, [req.user!.id, id]);
+
+    await recordPostEvent(client, 'post.deleted', id, req.user!.id);
 
     await client.query('COMMIT');
-    res.json({ message: 'Post deleted successfully' });
+
+    await emitWebhookEvent('post.deleted', { post: result.rows[0] });
+
+    res.json({ message: 'Post moved to trash' });
   } catch (error) {
     await client.query('ROLLBACK');
     next(error);
@@ -671,38 +1512,67 @@ export const deletePost = async (req: AuthRequest, res: Response, next: NextFunc
 };
 
 export const publishPost = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
   try {
+    await client.query('BEGIN');
+
     const { id } = req.params;
-    const db = getDatabase();
 
     // Check if post exists and user has permission
-    const existingPost = await db.query('SELECT author_id, status FROM posts WHERE id = $1', [id]);
+    const existingPost = await client.query('SELECT author_id, status FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
     if (existingPost.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    if (existingPost.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+    if (!(await canWritePost(client, id, req.user!))) {
       throw createError('Not authorized to publish this post', 403);
     }
 
-    const result = await db.query(`
+    // Authors go through the review workflow instead of publishing directly
+    if (!['admin', 'editor'].includes(req.user!.role)) {
+      throw createError('Posts must be submitted for review and approved by an editor before publishing', 403);
+    }
+
+    if (!PUBLISHABLE_STATUSES.includes(existingPost.rows[0].status)) {
+      throw createError(`A ${existingPost.rows[0].status} post cannot be published`, 409, {
+        status: existingPost.rows[0].status,
+        allowedStatuses: PUBLISHABLE_STATUSES
+      });
+    }
+
+    const result = await client.query(`
       UPDATE posts 
-      SET status = 'published', published_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      SET status = 'published', published_at = CURRENT_TIMESTAMP, ${clearPastExpiry()}, updated_at = CURRENT_TIMESTAMP
       WHERE id = $1
       RETURNING *
     `, [id]);
 
-    res.json({ post: result.rows[0] });
+    await recordStatusTransition(client, id, existingPost.rows[0].status, 'published', 'publish', req.user!.id);
+    await recordPostEvent(client, 'post.published', id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    const post = omitInternalColumns(result.rows[0]);
+    await emitWebhookEvent('post.published', { post });
+
+    res.json({ post });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 };
 
 export const schedulePost = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
   try {
+    await client.query('BEGIN');
+
     const { id } = req.params;
-    const { scheduledAt } = req.body;
-    const db = getDatabase();
+    const { scheduledAt, expiresAt } = req.body;
 
     // Validate scheduledAt
     const scheduleDate = new Date(scheduledAt);
@@ -714,32 +1584,237 @@ export const schedulePost = async (req: AuthRequest, res: Response, next: NextFu
       throw createError('Scheduled date must be in the future', 400);
     }
 
+    if (expiresAt && new Date(expiresAt) <= scheduleDate) {
+      throw createError('Expiry date must be after the scheduled date', 400);
+    }
+
     // Check if post exists and user has permission
-    const existingPost = await db.query('SELECT author_id, status FROM posts WHERE id = $1', [id]);
+    const existingPost = await client.query('SELECT author_id, status FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (existingPost.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    if (existingPost.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+    if (!(await canWritePost(client, id, req.user!))) {
       throw createError('Not authorized to schedule this post', 403);
     }
 
+    // Authors go through the review workflow instead of scheduling directly
+    if (!['admin', 'editor'].includes(req.user!.role)) {
+      throw createError('Posts must be submitted for review and approved by an editor before scheduling', 403);
+    }
+
     // Only allow scheduling of draft posts
     if (existingPost.rows[0].status !== 'draft') {
       throw createError('Only draft posts can be scheduled', 400);
     }
 
-    const result = await db.query(`
+    const result = await client.query(`
       UPDATE posts 
-      SET status = 'scheduled', scheduled_at = $1, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2
+      SET status = 'scheduled', scheduled_at = $1,
+          expires_at = COALESCE($2, CASE WHEN expires_at <= $1 THEN NULL ELSE expires_at END),
+          publish_attempts = 0, next_publish_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3
       RETURNING *
-    `, [scheduledAt, id]);
+    `, [scheduledAt, expiresAt || null, id]);
+
+    await recordStatusTransition(client, id, 'draft', 'scheduled', 'schedule', req.user!.id);
+    await recordPostEvent(client, 'post.scheduled', id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    const post = omitInternalColumns(result.rows[0]);
+    await emitWebhookEvent('post.scheduled', { post });
 
     res.json({ 
-      post: result.rows[0],
+      post,
       message: `Post scheduled for ${scheduleDate.toISOString()}`
     });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const submitPostForReview = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+    const { comment } = req.body;
+
+    // Check if post exists and user has permission
+    const existingPost = await client.query('SELECT author_id, status FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
+    if (existingPost.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    if (!(await canWritePost(client, id, req.user!))) {
+      throw createError('Not authorized to submit this post', 403);
+    }
+
+    if (existingPost.rows[0].status !== 'draft') {
+      throw createError('Only draft posts can be submitted for review', 400);
+    }
+
+    const result = await client.query(`
+      UPDATE posts 
+      SET status = 'in_review', updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `, [id]);
+
+    await recordStatusTransition(client, id, 'draft', 'in_review', 'submit', req.user!.id, comment);
+    await recordPostEvent(client, 'post.submitted', id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    res.json({
+      post: omitInternalColumns(result.rows[0]),
+      message: 'Post submitted for review'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const approvePost = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+    const { scheduledAt, comment } = req.body;
+
+    const existingPost = await client.query('SELECT status FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
+    if (existingPost.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    if (existingPost.rows[0].status !== 'in_review') {
+      throw createError('Only posts in review can be approved', 400);
+    }
+
+    let result;
+    let message: string;
+
+    if (scheduledAt) {
+      const scheduleDate = new Date(scheduledAt);
+      if (isNaN(scheduleDate.getTime()) || scheduleDate <= new Date()) {
+        throw createError('Scheduled date must be in the future', 400);
+      }
+
+      result = await client.query(`
+        UPDATE posts 
+        SET status = 'scheduled', scheduled_at = $1, ${clearPastExpiry('$1')},
+            publish_attempts = 0, next_publish_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2
+        RETURNING *
+      `, [scheduledAt, id]);
+      message = `Post approved and scheduled for ${scheduleDate.toISOString()}`;
+    } else {
+      result = await client.query(`
+        UPDATE posts 
+        SET status = 'published', published_at = CURRENT_TIMESTAMP, ${clearPastExpiry()}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *
+      `, [id]);
+      message = 'Post approved and published';
+    }
+
+    await recordStatusTransition(client, id, 'in_review', result.rows[0].status, 'approve', req.user!.id, comment);
+    await recordPostEvent(client, STATUS_WEBHOOK_EVENTS[result.rows[0].status], id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    const post = omitInternalColumns(result.rows[0]);
+    await emitWebhookEvent(STATUS_WEBHOOK_EVENTS[post.status], { post });
+
+    res.json({
+      post,
+      message
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const rejectPost = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+    const { comment } = req.body;
+
+    const existingPost = await client.query('SELECT status FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
+    if (existingPost.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    if (existingPost.rows[0].status !== 'in_review') {
+      throw createError('Only posts in review can be rejected', 400);
+    }
+
+    // Rejected posts go back to the author as drafts
+    const result = await client.query(`
+      UPDATE posts 
+      SET status = 'draft', updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `, [id]);
+
+    await recordStatusTransition(client, id, 'in_review', 'draft', 'reject', req.user!.id, comment);
+    await recordPostEvent(client, 'post.rejected', id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    res.json({
+      post: omitInternalColumns(result.rows[0]),
+      message: 'Post sent back to the author'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const getPostTransitions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    // Check if post exists and user has permission
+    const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
+    if (postResult.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    if (!(await canReadPost(db, id, req.user!))) {
+      throw createError('Not authorized to view the history of this post', 403);
+    }
+
+    const result = await db.query(`
+      SELECT id, from_status, to_status, action, comment, actor_id, created_at
+      FROM post_status_transitions
+      WHERE post_id = $1
+      ORDER BY created_at DESC
+    `, [id]);
+
+    res.json({ transitions: result.rows });
   } catch (error) {
     next(error);
   }
@@ -754,7 +1829,7 @@ export const getScheduledPosts = async (req: Request, res: Response, next: NextF
     const result = await db.query(`
       SELECT p.id, p.title, p.slug, p.scheduled_at, p.author_id
       FROM posts p
-      WHERE p.status = 'scheduled' AND p.scheduled_at <= $1
+      WHERE p.status = 'scheduled' AND p.scheduled_at <= $1 AND p.deleted_at IS NULL
       ORDER BY p.scheduled_at ASC
       LIMIT $2
     `, [new Date(), Number(limit)]);
@@ -768,48 +1843,49 @@ export const getScheduledPosts = async (req: Request, res: Response, next: NextF
   }
 };
 
-// New function to publish scheduled posts
+// Publish due scheduled posts on demand; the in-process scheduler does the same every minute
 export const publishScheduledPosts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const db = getDatabase();
-    const now = new Date();
+    const { publishedPosts, failedPosts } = await publishDuePosts();
 
-    // Get posts that are scheduled and ready to publish
-    const scheduledPosts = await db.query(`
-      SELECT id, title, scheduled_at
-      FROM posts 
-      WHERE status = 'scheduled' AND scheduled_at <= $1
-      ORDER BY scheduled_at ASC
-    `, [now]);
+    res.json({ 
+      message: `Published ${publishedPosts.length} scheduled posts`,
+      publishedPosts,
+      failedPosts
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const publishedPosts = [];
+export const getPublishAttempts = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
 
-    for (const post of scheduledPosts.rows) {
-      try {
-        await db.query('BEGIN');
-        
-        // Update post status to published
-        await db.query(`
-          UPDATE posts 
-          SET status = 'published', published_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
-          WHERE id = $1
-        `, [post.id]);
-
-        await db.query('COMMIT');
-        publishedPosts.push({
-          id: post.id,
-          title: post.title,
-          publishedAt: now
-        });
-      } catch (error) {
-        await db.query('ROLLBACK');
-        console.error(`Failed to publish scheduled post ${post.id}:`, error);
-      }
+    // Check if post exists and user has permission
+    const postResult = await db.query(
+      'SELECT author_id, publish_attempts, next_publish_attempt_at FROM posts WHERE id = $1 AND deleted_at IS NULL',
+      [id]
+    );
+    if (postResult.rows.length === 0) {
+      throw createError('Post not found', 404);
     }
 
-    res.json({ 
-      message: `Published ${publishedPosts.length} scheduled posts`,
-      publishedPosts
+    if (!(await canReadPost(db, id, req.user!))) {
+      throw createError('Not authorized to view the history of this post', 403);
+    }
+
+    const result = await db.query(`
+      SELECT attempt_number, succeeded, error, worker_id, attempted_at
+      FROM post_publish_attempts
+      WHERE post_id = $1
+      ORDER BY attempted_at DESC
+    `, [id]);
+
+    res.json({
+      attempts: result.rows,
+      nextAttemptAt: postResult.rows[0].next_publish_attempt_at
     });
   } catch (error) {
     next(error);
@@ -823,12 +1899,12 @@ export const getPostVersions = async (req: AuthRequest, res: Response, next: Nex
     const db = getDatabase();
 
     // Check if post exists and user has permission
-    const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1', [id]);
+    const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (postResult.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    if (postResult.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+    if (!(await canReadPost(db, id, req.user!))) {
       throw createError('Not authorized to view versions of this post', 403);
     }
 
@@ -866,41 +1942,45 @@ export const getPostVersions = async (req: AuthRequest, res: Response, next: Nex
 };
 
 export const createPostVersion = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
   try {
+    await client.query('BEGIN');
+
     const { id } = req.params;
-    const { title, content, excerpt, description } = req.body;
-    const db = getDatabase();
+    const { title, content, excerpt, description, changeSummary } = req.body;
 
     // Get current post
-    const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1', [id]);
+    const postResult = await client.query('SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (postResult.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    if (postResult.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+    if (!(await canWritePost(client, id, req.user!))) {
       throw createError('Not authorized to create versions of this post', 403);
     }
 
-    // Get next version number
-    const versionResult = await db.query(
-      'SELECT MAX(version_number) as max_version FROM post_versions WHERE post_id = $1',
-      [id]
+    // Snapshot the current post, letting the request supply its own title/content/excerpt
+    const version = await snapshotPostVersion(
+      client,
+      id,
+      req.user!.id,
+      'createPostVersion',
+      changeSummary || description,
+      { title, content, excerpt }
     );
-    const nextVersion = (versionResult.rows[0].max_version || 0) + 1;
 
-    // Create version
-    const result = await db.query(`
-      INSERT INTO post_versions (post_id, title, content, excerpt, version_number, created_by)
-      VALUES ($1, $2, $3, $4, $5, $6)
-      RETURNING *
-    `, [id, title, content, excerpt, nextVersion, req.user!.id]);
+    await client.query('COMMIT');
 
     res.status(201).json({ 
-      version: result.rows[0],
-      message: `Version ${nextVersion} created successfully`
+      version,
+      message: `Version ${version.version_number} created successfully`
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 };
 
@@ -912,15 +1992,14 @@ export const restorePostVersion = async (req: AuthRequest, res: Response, next:
     await client.query('BEGIN');
     
     const { id, versionNumber } = req.params;
-    const db = getDatabase();
 
     // Check if post exists and user has permission
-    const postResult = await client.query('SELECT author_id FROM posts WHERE id = $1', [id]);
+    const postResult = await client.query('SELECT author_id, content_format FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (postResult.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    if (postResult.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+    if (!(await canWritePost(client, id, req.user!))) {
       throw createError('Not authorized to restore versions of this post', 403);
     }
 
@@ -937,30 +2016,71 @@ export const restorePostVersion = async (req: AuthRequest, res: Response, next:
     const version = versionResult.rows[0];
 
     // Create a new version from current post before restoring
-    const currentPost = await client.query('SELECT title, content, excerpt FROM posts WHERE id = $1', [id]);
-    if (currentPost.rows.length > 0) {
-      const current = currentPost.rows[0];
-      
-      // Get next version number
-      const maxVersionResult = await client.query(
-        'SELECT MAX(version_number) as max_version FROM post_versions WHERE post_id = $1',
-        [id]
-      );
-      const nextVersion = (maxVersionResult.rows[0].max_version || 0) + 1;
+    await snapshotPostVersion(
+      client,
+      id,
+      req.user!.id,
+      'restorePostVersion',
+      `Before restoring version ${version.version_number}`
+    );
+
+    // Versions from before content formats were tracked are rendered the way the post is written now
+    const contentFormat: ContentFormat = version.content_format || postResult.rows[0].content_format;
+    const settings = await fetchBlogSettings();
+    const rendered = renderContent(version.content, contentFormat, getSanitizePolicy(settings));
+    const stats = getReadingStats(rendered.html, settings.reading_words_per_minute);
+    const restoredExcerpt = resolveExcerpt(version.excerpt, rendered.html);
+
+    // Versions from before full snapshots only hold title, content and excerpt
+    if (version.category_ids === null) {
+      await client.query(`
+        UPDATE posts 
+        SET title = $1, content = $2, excerpt = $3, excerpt_auto = $4, content_html = $5, toc = $6,
+            word_count = $7, reading_time_minutes = $8, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $9
+      `, [
+        version.title, rendered.source, restoredExcerpt.excerpt, restoredExcerpt.excerptAuto, rendered.html,
+        JSON.stringify(rendered.toc), stats.wordCount, stats.readingTimeMinutes, id
+      ]);
+    } else {
+      const currentSlug = await client.query('SELECT slug, locale FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
+      const { slug: previousSlug, locale } = currentSlug.rows[0];
+      const slug = version.slug && version.slug !== previousSlug
+        ? await generateUniqueSlug(client, version.slug, locale, id)
+        : previousSlug;
 
-      // Create backup version
       await client.query(`
-        INSERT INTO post_versions (post_id, title, content, excerpt, version_number, created_by)
-        VALUES ($1, $2, $3, $4, $5, $6)
-      `, [id, current.title, current.content, current.excerpt, nextVersion, req.user!.id]);
+        UPDATE posts 
+        SET title = $1, slug = $2, content = $3, excerpt = $4, featured_image_url = $5,
+            meta_title = $6, meta_description = $7, content_format = $8, content_html = $9, toc = $10,
+            excerpt_auto = $11, word_count = $12, reading_time_minutes = $13, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $14
+      `, [
+        version.title, slug, rendered.source, restoredExcerpt.excerpt, version.featured_image_url,
+        version.meta_title, version.meta_description, contentFormat, rendered.html, JSON.stringify(rendered.toc),
+        restoredExcerpt.excerptAuto, stats.wordCount, stats.readingTimeMinutes, id
+      ]);
+
+      await recordSlugChange(client, id, previousSlug, slug, locale);
+
+      await client.query('DELETE FROM post_categories WHERE post_id = $1', [id]);
+      for (const categoryId of version.category_ids) {
+        await client.query(
+          'INSERT INTO post_categories (post_id, category_id) VALUES ($1, $2)',
+          [id, categoryId]
+        );
+      }
+
+      await client.query('DELETE FROM post_tags WHERE post_id = $1', [id]);
+      for (const tagId of version.tag_ids || []) {
+        await client.query(
+          'INSERT INTO post_tags (post_id, tag_id) VALUES ($1, $2)',
+          [id, tagId]
+        );
+      }
     }
 
-    // Restore the post from the version
-    await client.query(`
-      UPDATE posts 
-      SET title = $1, content = $2, excerpt = $3, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $4
-    `, [version.title, version.content, version.excerpt, id]);
+    await recordPostEvent(client, 'post.version_restored', id, req.user!.id);
 
     await client.query('COMMIT');
 
@@ -987,12 +2107,12 @@ export const getPostVersion = async (req: AuthRequest, res: Response, next: Next
     const db = getDatabase();
 
     // Check if post exists and user has permission
-    const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1', [id]);
+    const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (postResult.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    if (postResult.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+    if (!(await canReadPost(db, id, req.user!))) {
       throw createError('Not authorized to view versions of this post', 403);
     }
 
@@ -1012,80 +2132,246 @@ export const getPostVersion = async (req: AuthRequest, res: Response, next: Next
   }
 };
 
-export const getPostViews = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    const { id } = req.params;
-    const db = getDatabase();
-
+// Helper function to load one side of a diff: a stored version, or the live post for 'current'
+const loadDiffSnapshot = async (db: any, postId: string, ref: string) => {
+  if (ref === 'current') {
     const result = await db.query(`
-      SELECT COUNT(*) as view_count
-      FROM post_views 
-      WHERE post_id = $1
-    `, [id]);
+      SELECT p.title, p.slug, p.content, p.content_format, p.excerpt, p.featured_image_url, p.meta_title, p.meta_description,
+             ARRAY(SELECT category_id FROM post_categories WHERE post_id = p.id ORDER BY created_at, category_id) as category_ids,
+             ARRAY(SELECT tag_id FROM post_tags WHERE post_id = p.id ORDER BY created_at, tag_id) as tag_ids
+      FROM posts p
+      WHERE p.id = $1
+    `, [postId]);
+    return result.rows.length > 0 ? { ...result.rows[0], label: 'current' } : null;
+  }
 
-    res.json({ viewCount: parseInt(result.rows[0].view_count) });
-  } catch (error) {
-    next(error);
+  const versionNumber = Number(ref);
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    throw createError(`Invalid version number: ${ref}`, 400);
   }
+
+  const result = await db.query(`
+    SELECT title, slug, content, content_format, excerpt, featured_image_url, meta_title, meta_description,
+           category_ids, tag_ids
+    FROM post_versions
+    WHERE post_id = $1 AND version_number = $2
+  `, [postId, versionNumber]);
+
+  return result.rows.length > 0 ? { ...result.rows[0], label: `version ${versionNumber}` } : null;
 };
 
-export const incrementPostViews = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+// Helper function to compare id lists without caring about their order
+const sortedIds = (ids: string[] | null) => (ids ? [...ids].sort() : null);
+
+export const getPostVersionDiff = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { id } = req.params;
+    const { id, versionNumber } = req.params;
+    const { against = 'current', format = 'json' } = req.query;
     const db = getDatabase();
 
-    // Check if post exists
-    const postResult = await db.query('SELECT id FROM posts WHERE id = $1', [id]);
+    // Check if post exists and user has permission
+    const postResult = await db.query('SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (postResult.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    // Record view
-    await db.query(`
-      INSERT INTO post_views (post_id, ip_address, user_agent)
-      VALUES ($1, $2, $3)
-    `, [id, req.ip, req.get('User-Agent')]);
-
-    res.json({ message: 'View recorded' });
+    if (!(await canReadPost(db, id, req.user!))) {
+      throw createError('Not authorized to view versions of this post', 403);
+    }
+
+    const from = await loadDiffSnapshot(db, id, versionNumber);
+    const to = await loadDiffSnapshot(db, id, String(against));
+
+    if (!from || !to) {
+      throw createError('Version not found', 404);
+    }
+
+    const unified = unifiedDiff(from.label, to.label, {
+      title: { from: from.title, to: to.title },
+      excerpt: { from: from.excerpt, to: to.excerpt },
+      meta_title: { from: from.meta_title, to: to.meta_title },
+      meta_description: { from: from.meta_description, to: to.meta_description },
+      content: { from: from.content, to: to.content }
+    });
+
+    if (format === 'unified') {
+      res.type('text/plain').send(unified);
+      return;
+    }
+
+    const changes: Record<string, { changed: boolean }> = {
+      title: diffField(from.title, to.title),
+      excerpt: diffField(from.excerpt, to.excerpt),
+      content: diffText(from.content, to.content)
+    };
+
+    // Older versions only captured title, content and excerpt, so there is nothing to compare them on
+    if (from.category_ids !== null && to.category_ids !== null) {
+      Object.assign(changes, {
+        slug: diffField(from.slug, to.slug),
+        featured_image_url: diffField(from.featured_image_url, to.featured_image_url),
+        meta_title: diffField(from.meta_title, to.meta_title),
+        meta_description: diffField(from.meta_description, to.meta_description),
+        category_ids: diffField(sortedIds(from.category_ids), sortedIds(to.category_ids)),
+        tag_ids: diffField(sortedIds(from.tag_ids), sortedIds(to.tag_ids))
+      });
+    }
+
+    if (from.content_format && to.content_format) {
+      changes.content_format = diffField(from.content_format, to.content_format);
+    }
+
+    res.json({
+      from: from.label,
+      to: to.label,
+      changed: Object.values(changes).some((change) => change.changed),
+      changes,
+      unified
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPostViews = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const result = await db.query(`
+      SELECT COUNT(*) FILTER (WHERE is_unique) as unique_views, COUNT(*) as raw_views
+      FROM post_views 
+      WHERE post_id = $1
+    `, [id]);
+
+    const uniqueViews = parseInt(result.rows[0].unique_views);
+
+    res.json({
+      viewCount: uniqueViews,
+      uniqueViews,
+      rawViews: parseInt(result.rows[0].raw_views)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const incrementPostViews = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+
+    // Check if post exists
+    const postResult = await client.query('SELECT id FROM posts WHERE id = $1 AND deleted_at IS NULL', [id]);
+    if (postResult.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    // Crawlers, previewers and scripts don't count at all
+    const userAgent = req.get('User-Agent');
+    if (isBotUserAgent(userAgent)) {
+      await client.query('COMMIT');
+      res.json({ message: 'View ignored', counted: false });
+      return;
+    }
+
+    // Serialize views per visitor and post, so a double-fired beacon can't see no earlier
+    // view twice and count as unique both times. The lock is released on commit.
+    const visitorHash = hashVisitor(req.ip, userAgent);
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1::text || $2::text))', [id, visitorHash]);
+
+    // Every view is kept for the raw count; only the first one per visitor within the window is unique
+    const result = await client.query(`
+      INSERT INTO post_views (post_id, visitor_hash, is_unique)
+      SELECT $1, $2, NOT EXISTS (
+        SELECT 1 FROM post_views
+        WHERE post_id = $1 AND visitor_hash = $2 AND is_unique
+          AND viewed_at > CURRENT_TIMESTAMP - make_interval(mins => $3)
+      )
+      RETURNING is_unique
+    `, [id, visitorHash, VIEW_DEDUP_WINDOW_MINUTES]);
+
+    await client.query('COMMIT');
+
+    res.json({ message: 'View recorded', counted: result.rows[0].is_unique });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 };
 
 // Draft management functions
 export const getDrafts = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { page = 1, limit = 10, authorId } = req.query;
+    const { page = 1, limit = 10, cursor, paginate, authorId } = req.query;
     const db = getDatabase();
 
     const pageNum = Math.max(1, Number(page));
     const limitNum = Math.min(100, Math.max(1, Number(limit)));
     const offset = (pageNum - 1) * limitNum;
+    const useCursor = paginate === 'cursor' || cursor !== undefined;
 
     let query = `
       SELECT p.id, p.title, p.slug, p.excerpt, p.author_id, p.status,
              p.featured_image_url, p.created_at, p.updated_at
+             ${useCursor ? ', p.updated_at::text as cursor_value' : ''}
       FROM posts p
-      WHERE p.status = 'draft'
+      WHERE p.status = 'draft' AND p.deleted_at IS NULL
     `;
 
     const params: any[] = [];
     let paramCount = 0;
 
-    // Filter by author if specified
+    // Filter by contributor if specified
     if (authorId) {
       paramCount++;
-      query += ` AND p.author_id = $${paramCount}`;
+      query += ` AND ${contributorCondition('p', `$${paramCount}`)}`;
       params.push(authorId);
     }
 
-    // If user is not admin/editor, only show their own drafts
+    // If user is not admin/editor, only show drafts they are credited on
     if (!['admin', 'editor'].includes(req.user!.role)) {
       paramCount++;
-      query += ` AND p.author_id = $${paramCount}`;
+      query += ` AND ${contributorCondition('p', `$${paramCount}`)}`;
       params.push(req.user!.id);
     }
 
+    // Cursor mode - drafts are always listed by most recently updated
+    if (useCursor) {
+      let direction: CursorDirection = 'next';
+
+      if (cursor) {
+        const decoded = decodeCursor(cursor as string);
+        if (decoded.sortField !== 'updated_at' || decoded.sortOrder !== 'DESC') {
+          throw createError('Cursor does not match the requested sort order', 400);
+        }
+        direction = decoded.direction;
+
+        const comparison = direction === 'next' ? '<' : '>';
+        query += ` AND (p.updated_at, p.id) ${comparison} ($${paramCount + 1}, $${paramCount + 2})`;
+        params.push(decoded.value, decoded.id);
+        paramCount += 2;
+      }
+
+      const queryOrder = direction === 'next' ? 'DESC' : 'ASC';
+      query += ` ORDER BY p.updated_at ${queryOrder}, p.id ${queryOrder} LIMIT $${paramCount + 1}`;
+      params.push(limitNum + 1);
+
+      const result = await db.query(query, params);
+      const cursorPage = buildCursorPage(result.rows, limitNum, direction, !!cursor, 'updated_at', 'DESC');
+
+      res.json({
+        drafts: cursorPage.rows,
+        pagination: cursorPage.pagination
+      });
+      return;
+    }
+
     query += ` ORDER BY p.updated_at DESC LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}`;
     params.push(limitNum, offset);
 
@@ -1094,17 +2380,16 @@ export const getDrafts = async (req: AuthRequest, res: Response, next: NextFunct
     // Get total count
     let countQuery = `
       SELECT COUNT(*) FROM posts p
-      WHERE p.status = 'draft'
+      WHERE p.status = 'draft' AND p.deleted_at IS NULL
     `;
     const countParams = params.slice(0, -2);
     
     if (authorId) {
-      countQuery += ` AND p.author_id = $1`;
+      countQuery += ` AND ${contributorCondition('p', '$1')}`;
     }
     if (!['admin', 'editor'].includes(req.user!.role)) {
       const authorParamIndex = authorId ? 2 : 1;
-      countQuery += ` AND p.author_id = $${authorParamIndex}`;
-      countParams.push(req.user!.id);
+      countQuery += ` AND ${contributorCondition('p', `$${authorParamIndex}`)}`;
     }
 
     const countResult = await db.query(countQuery, countParams);
@@ -1128,69 +2413,124 @@ export const getDrafts = async (req: AuthRequest, res: Response, next: NextFunct
 };
 
 export const saveDraft = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
   try {
+    await client.query('BEGIN');
+
     const { 
       title, 
+      slug: requestedSlug,
       content, 
+      contentFormat,
       excerpt, 
       featuredImageUrl, 
       metaTitle, 
       metaDescription, 
       categories = [], 
       tags = [],
-      postId 
+      postId,
+      locale = DEFAULT_LOCALE,
+      translationOf
     } = req.body;
 
-    const db = getDatabase();
+    // Drafts have no request schema, so check the format and locale here
+    if (contentFormat !== undefined && !CONTENT_FORMATS.includes(contentFormat)) {
+      throw createError(`contentFormat must be one of: ${CONTENT_FORMATS.join(', ')}`, 400);
+    }
+
+    if (typeof locale !== 'string' || !LOCALE_PATTERN.test(locale)) {
+      throw createError('locale must be a language tag such as "en" or "pt-BR"', 400);
+    }
+
+    const settings = await fetchBlogSettings();
+    const policy = getSanitizePolicy(settings);
 
     if (postId) {
       // Update existing draft
-      const existingPost = await db.query('SELECT author_id FROM posts WHERE id = $1', [postId]);
+      const existingPost = await client.query('SELECT author_id, slug, locale, content_format, revision FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [postId]);
       if (existingPost.rows.length === 0) {
         throw createError('Post not found', 404);
       }
 
-      if (existingPost.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+      if (!(await canWritePost(client, postId, req.user!))) {
         throw createError('Not authorized to update this post', 403);
       }
 
+      await assertIfMatch(req, client, postId, existingPost.rows[0].revision);
+
+      // Only touch the slug when the client asks for a new one
+      const previousSlug = existingPost.rows[0].slug;
+      const draftLocale = existingPost.rows[0].locale;
+      const slug = requestedSlug ? await generateUniqueSlug(client, requestedSlug, draftLocale, postId) : previousSlug;
+
+      const draftFormat = contentFormat || existingPost.rows[0].content_format;
+      const rendered = renderContent(content, draftFormat, policy);
+      const stats = getReadingStats(rendered.html, settings.reading_words_per_minute);
+      const draftExcerpt = resolveExcerpt(excerpt, rendered.html);
+
       // Update the post
-      await db.query(`
+      const updateResult = await client.query(`
         UPDATE posts 
         SET title = $1, content = $2, excerpt = $3, featured_image_url = $4,
-            meta_title = $5, meta_description = $6, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $7
-      `, [title, content, excerpt, featuredImageUrl, metaTitle, metaDescription, postId]);
-
+            meta_title = $5, meta_description = $6, slug = $7, content_format = $8,
+            content_html = $9, toc = $10, excerpt_auto = $11, word_count = $12,
+            reading_time_minutes = $13, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $14
+        RETURNING revision
+      `, [
+        title, rendered.source, draftExcerpt.excerpt, featuredImageUrl, metaTitle, metaDescription, slug, draftFormat,
+        rendered.html, JSON.stringify(rendered.toc), draftExcerpt.excerptAuto, stats.wordCount,
+        stats.readingTimeMinutes, postId
+      ]);
+
+      await recordSlugChange(client, postId, previousSlug, slug, draftLocale);
+      await recordPostEvent(client, 'post.updated', postId, req.user!.id);
+
+      await client.query('COMMIT');
+
+      const { revision } = updateResult.rows[0];
+      res.set('ETag', formatRevisionETag(revision));
       res.json({ 
         message: 'Draft updated successfully',
-        postId 
+        postId,
+        slug,
+        revision,
+        sanitization: rendered.sanitization
       });
     } else {
       // Create new draft
-      const baseSlug = slugify(title, { lower: true, strict: true, remove: /[*+~.()'"!:@]/g });
-      let slug = baseSlug;
-      let counter = 1;
-
-      while (true) {
-        const existingPost = await db.query('SELECT id FROM posts WHERE slug = $1', [slug]);
-        if (existingPost.rows.length === 0) break;
-        slug = `${baseSlug}-${counter}`;
-        counter++;
-      }
-
-      const result = await db.query(`
-        INSERT INTO posts (title, slug, content, excerpt, author_id, status, featured_image_url, meta_title, meta_description)
-        VALUES ($1, $2, $3, $4, $5, 'draft', $6, $7, $8)
-        RETURNING id
-      `, [title, slug, content, excerpt, req.user!.id, featuredImageUrl, metaTitle, metaDescription]);
+      const slug = await generateUniqueSlug(client, requestedSlug || title, locale);
+      const translationGroupId = await resolveTranslationGroup(client, translationOf, locale);
+      const draftFormat = contentFormat || 'html';
+      const rendered = renderContent(content, draftFormat, policy);
+      const stats = getReadingStats(rendered.html, settings.reading_words_per_minute);
+      const draftExcerpt = resolveExcerpt(excerpt, rendered.html);
+
+      const result = await client.query(`
+        INSERT INTO posts (
+          title, slug, content, content_format, content_html, toc, excerpt, excerpt_auto, author_id, status,
+          featured_image_url, meta_title, meta_description, word_count, reading_time_minutes,
+          locale, translation_group_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'draft', $10, $11, $12, $13, $14, $15,
+                COALESCE($16::uuid, gen_random_uuid()))
+        RETURNING id, revision
+      `, [
+        title, slug, rendered.source, draftFormat, rendered.html, JSON.stringify(rendered.toc),
+        draftExcerpt.excerpt, draftExcerpt.excerptAuto, req.user!.id,
+        featuredImageUrl, metaTitle, metaDescription, stats.wordCount, stats.readingTimeMinutes,
+        locale, translationGroupId
+      ]);
 
       const newPostId = result.rows[0].id;
 
+      await addPostContributor(client, newPostId, req.user!.id, 'author', req.user!.id);
+
       // Add categories and tags
       if (categories.length > 0) {
         for (const categoryId of categories) {
-          await db.query(
+          await client.query(
             'INSERT INTO post_categories (post_id, category_id) VALUES ($1, $2)',
             [newPostId, categoryId]
           );
@@ -1203,7 +2543,7 @@ export const saveDraft = async (req: AuthRequest, res: Response, next: NextFunct
           
           // If all validations pass, insert tags
           for (const tagId of tags) {
-            await db.query(
+            await client.query(
               'INSERT INTO post_tags (post_id, tag_id) VALUES ($1, $2)',
               [newPostId, tagId]
             );
@@ -1213,28 +2553,42 @@ export const saveDraft = async (req: AuthRequest, res: Response, next: NextFunct
         }
       }
 
+      await recordPostEvent(client, 'post.created', newPostId, req.user!.id);
+
+      await client.query('COMMIT');
+
+      res.set('ETag', formatRevisionETag(result.rows[0].revision));
       res.status(201).json({ 
         message: 'Draft created successfully',
-        postId: newPostId 
+        postId: newPostId,
+        slug,
+        revision: result.rows[0].revision,
+        sanitization: rendered.sanitization
       });
     }
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 };
 
 export const deleteDraft = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
   try {
+    await client.query('BEGIN');
+
     const { id } = req.params;
-    const db = getDatabase();
 
     // Check if post exists and user has permission
-    const existingPost = await db.query('SELECT author_id, status FROM posts WHERE id = $1', [id]);
+    const existingPost = await client.query('SELECT author_id, status FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
     if (existingPost.rows.length === 0) {
       throw createError('Post not found', 404);
     }
 
-    if (existingPost.rows[0].author_id !== req.user!.id && !['admin', 'editor'].includes(req.user!.role)) {
+    if (!(await canWritePost(client, id, req.user!))) {
       throw createError('Not authorized to delete this post', 403);
     }
 
@@ -1242,10 +2596,353 @@ export const deleteDraft = async (req: AuthRequest, res: Response, next: NextFun
       throw createError('Only draft posts can be deleted', 400);
     }
 
-    await db.query('DELETE FROM posts WHERE id = $1', [id]);
+    const result = await client.query(`
+      UPDATE posts
+      SET deleted_at = CURRENT_TIMESTAMP, deleted_by = $1
+      WHERE id = $2
+      RETURNING id, title, slug, status, deleted_at, deleted_by
+    `, [req.user!.id, id]);
+
+    await recordPostEvent(client, 'post.deleted', id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    await emitWebhookEvent('post.deleted', { post: result.rows[0] });
+
+    res.json({ message: 'Draft moved to trash' });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+// Trash management
+export const getTrashedPosts = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { page = 1, limit = 10 } = req.query;
+    const db = getDatabase();
+
+    const pageNum = Math.max(1, Number(page));
+    const limitNum = Math.min(100, Math.max(1, Number(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    let where = 'WHERE p.deleted_at IS NOT NULL';
+    const params: any[] = [];
+
+    // If user is not admin/editor, only show trashed posts they could restore
+    if (!['admin', 'editor'].includes(req.user!.role)) {
+      params.push(req.user!.id);
+      where += ` AND ${contributorCondition('p', `$${params.length}`, true)}`;
+    }
+
+    const result = await db.query(`
+      SELECT p.id, p.title, p.slug, p.excerpt, p.author_id, p.status,
+             p.featured_image_url, p.created_at, p.updated_at, p.deleted_at, p.deleted_by,
+             p.deleted_at + make_interval(days => bs.trash_retention_days) as purge_at
+      FROM posts p
+      CROSS JOIN blog_settings bs
+      ${where}
+      ORDER BY p.deleted_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, limitNum, offset]);
+
+    const countResult = await db.query(`SELECT COUNT(*) FROM posts p ${where}`, params);
+    const total = parseInt(countResult.rows[0].count);
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      posts: result.rows,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: totalPages,
+        hasNext: pageNum < totalPages,
+        hasPrev: pageNum > 1
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const restoreTrashedPost = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+
+    const existingPost = await client.query(
+      'SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NOT NULL FOR UPDATE',
+      [id]
+    );
+    if (existingPost.rows.length === 0) {
+      throw createError('Post not found in trash', 404);
+    }
+
+    if (!(await canWritePost(client, id, req.user!))) {
+      throw createError('Not authorized to restore this post', 403);
+    }
+
+    await client.query(`
+      UPDATE posts
+      SET deleted_at = NULL, deleted_by = NULL
+      WHERE id = $1
+    `, [id]);
+
+    await recordPostEvent(client, 'post.restored', id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    const post = await getPostWithRelations(client, id);
+
+    res.json({
+      post,
+      message: 'Post restored from trash'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const getPostTranslations = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const postResult = await db.query(
+      'SELECT translation_group_id, locale FROM posts WHERE id = $1 AND deleted_at IS NULL',
+      [id]
+    );
+    if (postResult.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    const { translation_group_id: translationGroupId, locale } = postResult.rows[0];
+
+    // Only live translations are public; the post itself is included so hreflang sets are complete
+    const result = await db.query(`
+      SELECT p.id, p.title, p.slug, p.locale, p.published_at, p.updated_at
+      FROM posts p
+      WHERE p.translation_group_id = $1 AND ${LIVE_POST_CONDITIONS}
+      ORDER BY p.locale
+    `, [translationGroupId]);
+
+    const siteUrl = getSiteUrl(await fetchBlogSettings());
+
+    res.json({
+      translationGroupId,
+      locale,
+      translations: result.rows.map((row: any) => ({
+        ...row,
+        url: getPostUrl(siteUrl, row.slug, row.locale)
+      })),
+      hreflang: getHreflangAlternates(siteUrl, result.rows)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const linkPostTranslation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+    const { postId } = req.body;
+
+    if (!postId || postId === id) {
+      throw createError('postId of another post is required', 400);
+    }
+
+    const postsResult = await client.query(`
+      SELECT id, author_id, locale, translation_group_id
+      FROM posts
+      WHERE id = ANY($1::uuid[]) AND deleted_at IS NULL
+      FOR UPDATE
+    `, [[id, postId]]);
+
+    const post = postsResult.rows.find((row: any) => row.id === id);
+    const translation = postsResult.rows.find((row: any) => row.id === postId);
+    if (!post || !translation) {
+      throw createError('Post not found', 404);
+    }
+
+    // Linking changes both posts, so the user needs rights on each
+    if (!(await canWritePost(client, post.id, req.user!)) || !(await canWritePost(client, translation.id, req.user!))) {
+      throw createError('Not authorized to link these posts', 403);
+    }
+
+    if (translation.translation_group_id !== post.translation_group_id) {
+      await assertLocaleFreeInGroup(client, post.translation_group_id, translation.locale, translation.id);
+
+      await client.query(
+        'UPDATE posts SET translation_group_id = $1 WHERE id = $2',
+        [post.translation_group_id, translation.id]
+      );
+      await recordPostEvent(client, 'post.updated', translation.id, req.user!.id);
+    }
+
+    const groupResult = await client.query(`
+      SELECT id, title, slug, locale, status
+      FROM posts
+      WHERE translation_group_id = $1 AND deleted_at IS NULL
+      ORDER BY locale
+    `, [post.translation_group_id]);
+
+    await client.query('COMMIT');
+
+    await emitWebhookEvent('post.updated', { post: await getPostWithRelations(client, translation.id) });
+
+    res.json({
+      translationGroupId: post.translation_group_id,
+      translations: groupResult.rows,
+      message: 'Translation linked successfully'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const unlinkPostTranslation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+
+    const existingPost = await client.query(
+      'SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+      [id]
+    );
+    if (existingPost.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    if (!(await canWritePost(client, id, req.user!))) {
+      throw createError('Not authorized to update this post', 403);
+    }
+
+    // The post starts a translation group of its own; the rest of its old group stays linked
+    const result = await client.query(
+      'UPDATE posts SET translation_group_id = gen_random_uuid() WHERE id = $1 RETURNING translation_group_id',
+      [id]
+    );
+    await recordPostEvent(client, 'post.updated', id, req.user!.id);
+
+    await client.query('COMMIT');
+
+    await emitWebhookEvent('post.updated', { post: await getPostWithRelations(client, id) });
+
+    res.json({
+      translationGroupId: result.rows[0].translation_group_id,
+      message: 'Post removed from its translation group'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const setPostContributor = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id, userId } = req.params;
+    const { role } = req.body;
+
+    const existingPost = await client.query(
+      'SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+      [id]
+    );
+    if (existingPost.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    if (!(await canWritePost(client, id, req.user!))) {
+      throw createError('Not authorized to change the contributors of this post', 403);
+    }
+
+    // posts.author_id is the primary author, so their credit only changes with it
+    if (userId === existingPost.rows[0].author_id) {
+      throw createError('The primary author\'s credit cannot be changed', 400);
+    }
+
+    const contributor = await addPostContributor(client, id, userId, role, req.user!.id);
+
+    await client.query('COMMIT');
 
-    res.json({ message: 'Draft deleted successfully' });
+    res.json({
+      contributor,
+      contributors: await getPostContributors(client, id)
+    });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const removePostContributor = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id, userId } = req.params;
+
+    const existingPost = await client.query(
+      'SELECT author_id FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+      [id]
+    );
+    if (existingPost.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    if (!(await canWritePost(client, id, req.user!))) {
+      throw createError('Not authorized to change the contributors of this post', 403);
+    }
+
+    if (userId === existingPost.rows[0].author_id) {
+      throw createError('The primary author cannot be removed from the post', 400);
+    }
+
+    const result = await client.query(
+      'DELETE FROM post_contributors WHERE post_id = $1 AND user_id = $2 RETURNING user_id',
+      [id, userId]
+    );
+    if (result.rows.length === 0) {
+      throw createError('Contributor not found', 404);
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      contributors: await getPostContributors(client, id),
+      message: 'Contributor removed'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
   }
 };
@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction } from 'express';
+import slugify from 'slugify';
+import { getDatabase } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { canReadPost } from '../services/postContributors';
+import { renderContent } from '../utils/contentRenderer';
+import { getSanitizePolicy } from '../utils/sanitize';
+import { auditPostSeo } from '../utils/seoAudit';
+import { buildPostMetadata, renderMetadataHtml } from '../utils/headMetadata';
+import { fetchBlogSettings } from './blogSettingsController';
+
+// Helper function to find other posts that would show the same title in search results
+const findDuplicateMetaTitles = async (metaTitle: string, excludePostId: string | null) => {
+  const db = getDatabase();
+
+  const result = await db.query(`
+    SELECT id, title, slug
+    FROM posts
+    WHERE deleted_at IS NULL
+      AND ($2::uuid IS NULL OR id <> $2)
+      AND LOWER(COALESCE(NULLIF(TRIM(meta_title), ''), title)) = LOWER($1)
+    ORDER BY created_at DESC
+    LIMIT 10
+  `, [metaTitle.trim(), excludePostId]);
+
+  return result.rows;
+};
+
+export const auditPost = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { focusKeyword } = req.query;
+    const db = getDatabase();
+
+    const result = await db.query(`
+      SELECT id, title, slug, content, content_format, content_html, toc, excerpt,
+             meta_title, meta_description, featured_image_url
+      FROM posts
+      WHERE id = $1 AND deleted_at IS NULL
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    const post = result.rows[0];
+
+    if (!(await canReadPost(db, post.id, req.user!))) {
+      throw createError('Not authorized to audit this post', 403);
+    }
+
+    // Posts saved before rendering existed are rendered for the audit
+    const rendered = post.content_html === null
+      ? renderContent(post.content, post.content_format, getSanitizePolicy(await fetchBlogSettings()))
+      : null;
+
+    const audit = auditPostSeo({
+      title: post.title,
+      slug: post.slug,
+      metaTitle: post.meta_title,
+      metaDescription: post.meta_description,
+      excerpt: post.excerpt,
+      featuredImageUrl: post.featured_image_url,
+      contentHtml: rendered ? rendered.html : post.content_html,
+      toc: rendered ? rendered.toc : post.toc,
+      focusKeyword: typeof focusKeyword === 'string' ? focusKeyword : null,
+      duplicateMetaTitles: await findDuplicateMetaTitles(post.meta_title || post.title, post.id)
+    });
+
+    res.json({ postId: post.id, ...audit });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const auditPostPayload = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const {
+      postId,
+      title,
+      slug,
+      content,
+      contentFormat = 'html',
+      excerpt,
+      featuredImageUrl,
+      metaTitle,
+      metaDescription,
+      focusKeyword
+    } = req.body;
+
+    // Audit what the post would look like once saved, so render it with the live sanitizer policy
+    const settings = await fetchBlogSettings();
+    const rendered = renderContent(content, contentFormat, getSanitizePolicy(settings));
+
+    const audit = auditPostSeo({
+      title,
+      slug: slug || slugify(title, { lower: true, strict: true }),
+      metaTitle: metaTitle || null,
+      metaDescription: metaDescription || null,
+      excerpt: excerpt || null,
+      featuredImageUrl: featuredImageUrl || null,
+      contentHtml: rendered.html,
+      toc: rendered.toc,
+      focusKeyword: focusKeyword || null,
+      duplicateMetaTitles: await findDuplicateMetaTitles(metaTitle || title, postId || null)
+    });
+
+    res.json(audit);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPostMetadata = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { format = 'json' } = req.query;
+    const db = getDatabase();
+
+    if (format !== 'json' && format !== 'html') {
+      throw createError('format must be one of: json, html', 400);
+    }
+
+    // Only live posts have public metadata
+    const result = await db.query(`
+      SELECT id, title, slug, locale, translation_group_id, excerpt, meta_title, meta_description,
+             featured_image_url, published_at, updated_at, word_count
+      FROM posts
+      WHERE id = $1 AND status = 'published' AND deleted_at IS NULL
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      throw createError('Post not found', 404);
+    }
+
+    const post = result.rows[0];
+
+    try {
+      const categoriesResult = await db.query(`
+        SELECT c.name
+        FROM categories c
+        JOIN post_categories pc ON c.id = pc.category_id
+        WHERE pc.post_id = $1
+      `, [id]);
+      post.categories = categoriesResult.rows;
+    } catch (error) {
+      post.categories = [];
+    }
+
+    try {
+      const tagsResult = await db.query(`
+        SELECT t.name
+        FROM tags t
+        JOIN post_tags pt ON t.id = pt.tag_id
+        WHERE pt.post_id = $1
+      `, [id]);
+      post.tags = tagsResult.rows;
+    } catch (error) {
+      post.tags = [];
+    }
+
+    const translationsResult = await db.query(`
+      SELECT locale, slug
+      FROM posts
+      WHERE translation_group_id = $1 AND status = 'published' AND deleted_at IS NULL
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+      ORDER BY locale
+    `, [post.translation_group_id]);
+    post.translations = translationsResult.rows;
+
+    const metadata = buildPostMetadata(post, await fetchBlogSettings());
+
+    res.set('Cache-Control', 'public, max-age=300');
+
+    if (format === 'html') {
+      res.type('text/html; charset=utf-8').send(renderMetadataHtml(metadata));
+      return;
+    }
+
+    res.json({ metadata });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import { getDatabase } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { fetchBlogSettings } from './blogSettingsController';
+import { escapeXml } from '../utils/xml';
+import { getSiteUrl, getPostUrl } from '../utils/urls';
+
+// Sitemap protocol limit on URLs per file; past this the sitemap becomes an index
+const SITEMAP_MAX_URLS = 50000;
+
+// Only live content belongs in a sitemap
+const SITEMAP_CONDITIONS = `
+  p.status = 'published' AND p.deleted_at IS NULL
+  AND (p.expires_at IS NULL OR p.expires_at > CURRENT_TIMESTAMP)
+`;
+
+const renderUrlSet = (siteUrl: string, posts: any[]): string => {
+  const urls = posts.map((post) => `
+  <url>
+    <loc>${escapeXml(getPostUrl(siteUrl, post.slug, post.locale))}</loc>
+    <lastmod>${new Date(post.updated_at || post.published_at).toISOString()}</lastmod>
+  </url>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}
+</urlset>
+`;
+};
+
+const getSitemapPage = async (page: number) => {
+  const db = getDatabase();
+
+  const result = await db.query(`
+    SELECT p.slug, p.locale, p.updated_at, p.published_at
+    FROM posts p
+    WHERE ${SITEMAP_CONDITIONS}
+    ORDER BY p.published_at ASC, p.id ASC
+    LIMIT $1 OFFSET $2
+  `, [SITEMAP_MAX_URLS, (page - 1) * SITEMAP_MAX_URLS]);
+
+  return result.rows;
+};
+
+export const getSitemap = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const db = getDatabase();
+    const settings = await fetchBlogSettings();
+    const siteUrl = getSiteUrl(settings);
+
+    const countResult = await db.query(`
+      SELECT COUNT(*) as count
+      FROM posts p
+      WHERE ${SITEMAP_CONDITIONS}
+    `);
+    const total = parseInt(countResult.rows[0].count);
+
+    res.type('application/xml');
+
+    if (total <= SITEMAP_MAX_URLS) {
+      const posts = await getSitemapPage(1);
+      res.send(renderUrlSet(siteUrl, posts));
+      return;
+    }
+
+    // Too many posts for one file - point crawlers at the numbered sitemaps instead
+    const pagesResult = await db.query(`
+      SELECT page, MAX(COALESCE(updated_at, published_at)) as last_modified
+      FROM (
+        SELECT p.updated_at, p.published_at,
+               (ROW_NUMBER() OVER (ORDER BY p.published_at ASC, p.id ASC) - 1) / $1 + 1 as page
+        FROM posts p
+        WHERE ${SITEMAP_CONDITIONS}
+      ) numbered
+      GROUP BY page
+      ORDER BY page
+    `, [SITEMAP_MAX_URLS]);
+
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const sitemaps = pagesResult.rows.map((row) => `
+  <sitemap>
+    <loc>${escapeXml(`${baseUrl}/sitemap-posts-${row.page}.xml`)}</loc>
+    <lastmod>${new Date(row.last_modified).toISOString()}</lastmod>
+  </sitemap>`).join('');
+
+    res.send(`<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${sitemaps}
+</sitemapindex>
+`);
+  } catch (error) {
+    console.error('Error generating sitemap:', error);
+    next(error);
+  }
+};
+
+export const getSitemapPart = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const page = Number(req.params.page);
+    if (!Number.isInteger(page) || page < 1) {
+      throw createError('Sitemap not found', 404);
+    }
+
+    const settings = await fetchBlogSettings();
+    const posts = await getSitemapPage(page);
+
+    if (posts.length === 0) {
+      throw createError('Sitemap not found', 404);
+    }
+
+    res.type('application/xml').send(renderUrlSet(getSiteUrl(settings), posts));
+  } catch (error) {
+    console.error('Error generating sitemap:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,270 @@
+import { Response, NextFunction } from 'express';
+import { getDatabase } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import { generateWebhookSecret, triggerWebhookDelivery } from '../services/webhooks';
+
+// The signing secret is only returned when a webhook is created or its secret is rotated
+const WEBHOOK_COLUMNS = `
+  id, url, description, events, is_active, created_by, created_at, updated_at
+`;
+
+const DELIVERY_COLUMNS = `
+  id, webhook_id, event_id, event, status, attempts, last_response_status, last_error,
+  next_attempt_at, delivered_at, redelivery_of, created_at
+`;
+
+// Helper function to load a webhook or fail with 404
+const findWebhook = async (id: string) => {
+  const db = getDatabase();
+  const result = await db.query(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = $1`, [id]);
+
+  if (result.rows.length === 0) {
+    throw createError('Webhook not found', 404);
+  }
+
+  return result.rows[0];
+};
+
+export const getWebhooks = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(`
+      SELECT ${WEBHOOK_COLUMNS},
+             (SELECT COUNT(*) FROM webhook_deliveries d WHERE d.webhook_id = w.id AND d.status = 'failed') as failed_deliveries
+      FROM webhooks w
+      ORDER BY created_at DESC
+    `);
+
+    res.json({ webhooks: result.rows });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWebhook = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req.params.id);
+    res.json({ webhook });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createWebhook = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { url, description, events, isActive = true, secret } = req.body;
+    const db = getDatabase();
+
+    const result = await db.query(`
+      INSERT INTO webhooks (url, description, events, secret, is_active, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING ${WEBHOOK_COLUMNS}, secret
+    `, [url, description || null, events, secret || generateWebhookSecret(), isActive, req.user!.id]);
+
+    res.status(201).json({
+      webhook: result.rows[0],
+      message: 'Webhook created successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateWebhook = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { url, description, events, isActive, rotateSecret } = req.body;
+    const db = getDatabase();
+
+    await findWebhook(id);
+
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    let paramCount = 0;
+
+    if (url !== undefined) {
+      updateFields.push(`url = $${++paramCount}`);
+      updateValues.push(url);
+    }
+
+    if (description !== undefined) {
+      updateFields.push(`description = $${++paramCount}`);
+      updateValues.push(description || null);
+    }
+
+    if (events !== undefined) {
+      updateFields.push(`events = $${++paramCount}`);
+      updateValues.push(events);
+    }
+
+    if (isActive !== undefined) {
+      updateFields.push(`is_active = $${++paramCount}`);
+      updateValues.push(isActive);
+    }
+
+    if (rotateSecret) {
+      updateFields.push(`secret = $${++paramCount}`);
+      updateValues.push(generateWebhookSecret());
+    }
+
+    if (updateFields.length === 0) {
+      throw createError('No fields to update', 400);
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    const result = await db.query(`
+      UPDATE webhooks
+      SET ${updateFields.join(', ')}
+      WHERE id = $${++paramCount}
+      RETURNING ${WEBHOOK_COLUMNS}${rotateSecret ? ', secret' : ''}
+    `, updateValues);
+
+    // Deliveries held back while the webhook was disabled can go out now
+    if (isActive) {
+      triggerWebhookDelivery();
+    }
+
+    res.json({
+      webhook: result.rows[0],
+      message: 'Webhook updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteWebhook = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    await findWebhook(id);
+
+    // Deliveries and their attempt logs go with the webhook through ON DELETE CASCADE
+    await db.query('DELETE FROM webhooks WHERE id = $1', [id]);
+
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWebhookDeliveries = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 20, status, event } = req.query;
+    const db = getDatabase();
+
+    await findWebhook(id);
+
+    const pageNum = Math.max(1, Number(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, Number(limit) || 20));
+    const offset = (pageNum - 1) * limitNum;
+
+    const conditions: string[] = ['webhook_id = $1'];
+    const params: any[] = [id];
+
+    if (status) {
+      params.push(status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    if (event) {
+      params.push(event);
+      conditions.push(`event = $${params.length}`);
+    }
+
+    const whereClause = conditions.join(' AND ');
+
+    const result = await db.query(`
+      SELECT ${DELIVERY_COLUMNS}
+      FROM webhook_deliveries
+      WHERE ${whereClause}
+      ORDER BY created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, limitNum, offset]);
+
+    const countResult = await db.query(
+      `SELECT COUNT(*) as total FROM webhook_deliveries WHERE ${whereClause}`,
+      params
+    );
+
+    const total = parseInt(countResult.rows[0].total);
+
+    res.json({
+      deliveries: result.rows,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWebhookDelivery = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, deliveryId } = req.params;
+    const db = getDatabase();
+
+    const result = await db.query(`
+      SELECT ${DELIVERY_COLUMNS}, payload
+      FROM webhook_deliveries
+      WHERE id = $1 AND webhook_id = $2
+    `, [deliveryId, id]);
+
+    if (result.rows.length === 0) {
+      throw createError('Delivery not found', 404);
+    }
+
+    const attemptsResult = await db.query(`
+      SELECT attempt_number, response_status, response_body, error, duration_ms, attempted_at
+      FROM webhook_delivery_attempts
+      WHERE delivery_id = $1
+      ORDER BY attempt_number ASC
+    `, [deliveryId]);
+
+    res.json({
+      delivery: result.rows[0],
+      attempts: attemptsResult.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const redeliverWebhookDelivery = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, deliveryId } = req.params;
+    const db = getDatabase();
+
+    // A redelivery is a fresh delivery of the same event, so receivers can dedupe on the event id
+    const result = await db.query(`
+      INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload, redelivery_of)
+      SELECT webhook_id, event_id, event, payload, id
+      FROM webhook_deliveries
+      WHERE id = $1 AND webhook_id = $2
+      RETURNING ${DELIVERY_COLUMNS}
+    `, [deliveryId, id]);
+
+    if (result.rows.length === 0) {
+      throw createError('Delivery not found', 404);
+    }
+
+    triggerWebhookDelivery();
+
+    res.status(202).json({
+      delivery: result.rows[0],
+      message: 'Redelivery queued'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -5,6 +5,10 @@ import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { postRoutes } from './routes/posts';
 import { blogSettingsRoutes } from './routes/blogSettings';
+import { feedRoutes } from './routes/feeds';
+import { sitemapRoutes } from './routes/sitemap';
+import { webhookRoutes } from './routes/webhooks';
+import { analyticsRoutes } from './routes/analytics';
 import { errorHandler } from './middleware/errorHandler';
 import { connectDatabase } from './config/database';
 import { initializeDatabase } from './migrations/initialize';
@@ -42,6 +46,10 @@ app.get('/health', (req, res) => {
 // Routes
 app.use('/api/posts', postRoutes);
 app.use('/api/blog-settings', blogSettingsRoutes);
+app.use('/api/feeds', feedRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/', sitemapRoutes);
 
 // Error handling
 app.use(errorHandler);
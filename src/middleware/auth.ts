@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import axios from 'axios';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { createError } from './errorHandler';
 
 export interface AuthRequest extends Request {
@@ -70,6 +71,27 @@ export const requireRole = (roles: string[]) => {
   };
 };
 
+// Internal endpoints called by other services or ops tooling, authenticated with a shared token
+export const requireServiceToken = (req: Request, res: Response, next: NextFunction): void => {
+  const expected = process.env.SERVICE_TOKEN;
+
+  if (!expected) {
+    next(createError('Service token not configured', 503));
+    return;
+  }
+
+  const provided = req.get('X-Service-Token');
+  const providedBuffer = Buffer.from(provided || '');
+  const expectedBuffer = Buffer.from(expected);
+
+  if (!provided || providedBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(providedBuffer, expectedBuffer)) {
+    next(createError('Invalid service token', 401));
+    return;
+  }
+
+  next();
+};
+
 export const requireAdmin = requireRole(['admin']);
 export const requireEditor = requireRole(['admin', 'editor']);
 export const requireAuthor = requireRole(['admin', 'editor', 'author']);
@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  details?: any;
 }
 
 export const errorHandler = (
@@ -28,14 +29,16 @@ export const errorHandler = (
       message,
       statusCode,
       timestamp: new Date().toISOString(),
-      path: req.url
+      path: req.url,
+      ...(error.details !== undefined && { details: error.details })
     }
   });
 };
 
-export const createError = (message: string, statusCode: number = 500): AppError => {
+export const createError = (message: string, statusCode: number = 500, details?: any): AppError => {
   const error: AppError = new Error(message);
   error.statusCode = statusCode;
   error.isOperational = true;
+  error.details = details;
   return error;
 };
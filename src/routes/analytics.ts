@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getViewTimeSeries } from '../controllers/analyticsController';
+import { authenticateToken, requireAuthor } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// View time series for a post, an author or the whole site
+router.get('/views', requireAuthor, getViewTimeSeries);
+
+export { router as analyticsRoutes };
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getRssFeed, getAtomFeed, getJsonFeed } from '../controllers/feedController';
+
+const router = Router();
+
+// Public feeds of published posts, optionally narrowed with ?categoryId= or ?tagId=
+router.get('/rss', getRssFeed);
+router.get('/atom', getAtomFeed);
+router.get('/json', getJsonFeed);
+
+export { router as feedRoutes };
@@ -1,45 +1,76 @@
 import { Router } from 'express';
 import { 
   getPosts, 
+  getTrendingPosts,
+  getRelatedPosts,
   getPostById, 
+  getPostBySlug,
+  getPostSlugHistory,
   createPost, 
   updatePost, 
   deletePost, 
   publishPost,
   schedulePost,
+  submitPostForReview,
+  approvePost,
+  rejectPost,
+  getPostTransitions,
   getScheduledPosts,
   publishScheduledPosts,
   getPostVersions,
   createPostVersion,
   restorePostVersion,
   getPostVersion,
+  getPostVersionDiff,
   getPostViews,
   incrementPostViews,
   getDrafts,
   saveDraft,
-  deleteDraft
+  deleteDraft,
+  getTrashedPosts,
+  restoreTrashedPost,
+  getPublishAttempts,
+  getPostTranslations,
+  linkPostTranslation,
+  unlinkPostTranslation,
+  setPostContributor,
+  removePostContributor
 } from '../controllers/postController';
-import { authenticateToken, requireAuthor, requireEditor } from '../middleware/auth';
+import { auditPost, auditPostPayload, getPostMetadata } from '../controllers/seoController';
+import { authenticateToken, requireAuthor, requireEditor, requireServiceToken } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import { 
   createPostSchema, 
   updatePostSchema, 
-  schedulePostSchema 
+  schedulePostSchema,
+  submitForReviewSchema,
+  approvePostSchema,
+  rejectPostSchema,
+  seoAuditSchema,
+  linkTranslationSchema,
+  setContributorSchema
 } from '../schemas/postSchemas';
 
 const router = Router();
 
 // Public routes
 router.get('/', getPosts);
+router.get('/slug/:slug', getPostBySlug);
+router.get('/trending', getTrendingPosts);
+router.get('/trash', authenticateToken, requireAuthor, getTrashedPosts);
 router.get('/:id', getPostById);
+router.get('/:id/slugs', getPostSlugHistory);
+router.get('/:id/related', getRelatedPosts);
+router.get('/:id/metadata', getPostMetadata);
+router.get('/:id/translations', getPostTranslations);
 
 // Views (public - no auth required)
 router.get('/:id/views', getPostViews);
 router.post('/:id/views', incrementPostViews);
 
-// Scheduled posts (public for cron jobs)
-router.get('/scheduled/ready', getScheduledPosts);
-router.post('/scheduled/publish', publishScheduledPosts);
+// Scheduled posts (the in-process scheduler publishes them; these are for ops tooling)
+router.get('/scheduled/ready', requireServiceToken, getScheduledPosts);
+router.post('/scheduled/publish', requireServiceToken, publishScheduledPosts);
 
 // Development routes (no auth required)
 router.post('/', validateRequest(createPostSchema), createPost);
@@ -53,14 +84,35 @@ router.post('/drafts', requireAuthor, saveDraft);
 router.delete('/drafts/:id', requireAuthor, deleteDraft);
 router.put('/:id', requireAuthor, validateRequest(updatePostSchema), updatePost);
 router.delete('/:id', requireAuthor, deletePost);
+router.post('/:id/restore', requireAuthor, restoreTrashedPost);
 
 // Publishing
 router.post('/:id/publish', requireAuthor, publishPost);
 router.post('/:id/schedule', requireAuthor, validateRequest(schedulePostSchema), schedulePost);
+router.get('/:id/publish-attempts', requireAuthor, getPublishAttempts);
+
+// Editorial review
+router.post('/:id/submit', requireAuthor, validateRequest(submitForReviewSchema), submitPostForReview);
+router.post('/:id/approve', requireEditor, validateRequest(approvePostSchema), approvePost);
+router.post('/:id/reject', requireEditor, validateRequest(rejectPostSchema), rejectPost);
+router.get('/:id/transitions', requireAuthor, getPostTransitions);
+
+// Translation groups
+router.post('/:id/translations', requireAuthor, validateRequest(linkTranslationSchema), linkPostTranslation);
+router.delete('/:id/translations', requireAuthor, unlinkPostTranslation);
+
+// Contributor credits
+router.put('/:id/contributors/:userId', requireAuthor, validateRequest(setContributorSchema), setPostContributor);
+router.delete('/:id/contributors/:userId', requireAuthor, removePostContributor);
+
+// SEO audit of a saved post, or of an unsaved payload from the editor
+router.post('/seo-audit', requireAuthor, validateRequest(seoAuditSchema), auditPostPayload);
+router.get('/:id/seo-audit', requireAuthor, auditPost);
 
 // Versioning
 router.get('/:id/versions', requireAuthor, getPostVersions);
 router.get('/:id/versions/:versionNumber', requireAuthor, getPostVersion);
+router.get('/:id/versions/:versionNumber/diff', requireAuthor, getPostVersionDiff);
 router.post('/:id/versions', requireAuthor, createPostVersion);
 router.post('/:id/versions/:versionNumber/restore', requireAuthor, restorePostVersion);
 
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { getSitemap, getSitemapPart } from '../controllers/sitemapController';
+
+const router = Router();
+
+// Public sitemap of published posts, split into numbered files once it outgrows the protocol limit
+router.get('/sitemap.xml', getSitemap);
+router.get('/sitemap-posts-:page.xml', getSitemapPart);
+
+export { router as sitemapRoutes };
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import {
+  getWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhookDelivery,
+  redeliverWebhookDelivery
+} from '../controllers/webhookController';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { createWebhookSchema, updateWebhookSchema } from '../schemas/webhookSchemas';
+
+const router = Router();
+
+// Webhook subscriptions are managed by admins only
+router.use(authenticateToken, requireAdmin);
+
+router.get('/', getWebhooks);
+router.post('/', validateRequest(createWebhookSchema), createWebhook);
+router.get('/:id', getWebhook);
+router.put('/:id', validateRequest(updateWebhookSchema), updateWebhook);
+router.delete('/:id', deleteWebhook);
+
+// Delivery log
+router.get('/:id/deliveries', getWebhookDeliveries);
+router.get('/:id/deliveries/:deliveryId', getWebhookDelivery);
+router.post('/:id/deliveries/:deliveryId/redeliver', redeliverWebhookDelivery);
+
+export { router as webhookRoutes };
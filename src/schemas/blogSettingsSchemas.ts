@@ -14,5 +14,15 @@ export const updateBlogSettingsSchema = Joi.object({
   seoMetaDescription: Joi.string().max(500).allow('').optional(),
   seoKeywords: Joi.string().max(500).allow('').optional(),
   googleAnalyticsId: Joi.string().max(100).allow('').optional(),
+  siteUrl: Joi.string().uri({ scheme: ['http', 'https'] }).max(500).allow('').optional(),
+  trashRetentionDays: Joi.number().integer().min(1).max(3650).optional(),
+  readingWordsPerMinute: Joi.number().integer().min(50).max(1000).optional(),
+  // Content sanitizer policy; leave a part out (or null) to use the built-in default
+  sanitizerAllowedTags: Joi.array().items(Joi.string().pattern(/^[a-z][a-z0-9]*$/)).unique().allow(null).optional(),
+  sanitizerAllowedAttributes: Joi.object().pattern(
+    /^([a-z][a-z0-9]*|\*)$/,
+    Joi.array().items(Joi.string().pattern(/^[a-z][a-z0-9-]*$/)).unique()
+  ).allow(null).optional(),
+  sanitizerIframeHosts: Joi.array().items(Joi.string().hostname()).unique().allow(null).optional(),
 });
 
@@ -1,9 +1,15 @@
 import Joi from 'joi';
+import { CONTENT_FORMATS } from '../utils/contentRenderer';
+import { LOCALE_PATTERN } from '../utils/locales';
+
+// The 'author' credit belongs to the post's creator and is set automatically
+const ASSIGNABLE_CONTRIBUTOR_ROLES = ['co_author', 'editor', 'reviewer'];
 
 export const createPostSchema = Joi.object({
   title: Joi.string().min(1).max(500).required(),
   slug: Joi.string().min(1).max(500).allow(''),
   content: Joi.string().min(1).required(),
+  contentFormat: Joi.string().valid(...CONTENT_FORMATS).default('html'),
   excerpt: Joi.string().max(1000).allow(''),
   featuredImageUrl: Joi.string().uri().allow(''),
   metaTitle: Joi.string().max(200).allow(''),
@@ -11,12 +17,22 @@ export const createPostSchema = Joi.object({
   categories: Joi.array().items(Joi.string().uuid()).default([]),
   tags: Joi.array().items(Joi.string().uuid()).default([]),
   status: Joi.string().valid('draft', 'published', 'scheduled', 'archived').default('draft'),
-  scheduledAt: Joi.date().iso().greater('now').optional()
+  scheduledAt: Joi.date().iso().greater('now').optional(),
+  expiresAt: Joi.date().iso().greater('now').optional(),
+  expiryStatus: Joi.string().valid('archived', 'draft').default('archived'),
+  locale: Joi.string().pattern(LOCALE_PATTERN),
+  translationOf: Joi.string().uuid(),
+  contributors: Joi.array().items(Joi.object({
+    userId: Joi.string().uuid().required(),
+    role: Joi.string().valid(...ASSIGNABLE_CONTRIBUTOR_ROLES).required()
+  })).unique('userId').default([])
 });
 
 export const updatePostSchema = Joi.object({
   title: Joi.string().min(1).max(500),
+  slug: Joi.string().min(1).max(500),
   content: Joi.string().min(1).allow(''), // Allow empty but require string
+  contentFormat: Joi.string().valid(...CONTENT_FORMATS),
   excerpt: Joi.string().max(1000).allow(''),
   featuredImageUrl: Joi.string().uri().allow(''),
   metaTitle: Joi.string().max(200).allow(''),
@@ -25,9 +41,48 @@ export const updatePostSchema = Joi.object({
   tags: Joi.array().items(Joi.string().uuid()),
   status: Joi.string().valid('draft', 'published', 'scheduled', 'archived'),
   scheduledAt: Joi.date().iso().optional(),
-  createVersion: Joi.boolean().default(true)
+  expiresAt: Joi.date().iso().greater('now').allow(null),
+  expiryStatus: Joi.string().valid('archived', 'draft'),
+  changeSummary: Joi.string().max(1000).allow(''),
+  createVersion: Joi.boolean().default(true),
+  locale: Joi.string().pattern(LOCALE_PATTERN)
 });
 
 export const schedulePostSchema = Joi.object({
-  scheduledAt: Joi.date().iso().greater('now').required()
+  scheduledAt: Joi.date().iso().greater('now').required(),
+  expiresAt: Joi.date().iso().greater(Joi.ref('scheduledAt')).optional()
+});
+
+export const submitForReviewSchema = Joi.object({
+  comment: Joi.string().max(2000).allow('')
+});
+
+export const approvePostSchema = Joi.object({
+  scheduledAt: Joi.date().iso().greater('now').optional(),
+  comment: Joi.string().max(2000).allow('')
+});
+
+export const rejectPostSchema = Joi.object({
+  comment: Joi.string().min(1).max(2000).required()
+});
+
+export const seoAuditSchema = Joi.object({
+  postId: Joi.string().uuid().optional(),
+  title: Joi.string().min(1).max(500).required(),
+  slug: Joi.string().max(500).allow(''),
+  content: Joi.string().allow('').required(),
+  contentFormat: Joi.string().valid(...CONTENT_FORMATS).default('html'),
+  excerpt: Joi.string().max(1000).allow(''),
+  featuredImageUrl: Joi.string().uri().allow(''),
+  metaTitle: Joi.string().max(200).allow(''),
+  metaDescription: Joi.string().max(500).allow(''),
+  focusKeyword: Joi.string().max(100).allow('')
+});
+
+export const linkTranslationSchema = Joi.object({
+  postId: Joi.string().uuid().required()
+});
+
+export const setContributorSchema = Joi.object({
+  role: Joi.string().valid(...ASSIGNABLE_CONTRIBUTOR_ROLES).required()
 });
@@ -0,0 +1,18 @@
+import Joi from 'joi';
+import { WEBHOOK_EVENTS } from '../services/webhooks';
+
+export const createWebhookSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).max(500).required(),
+  description: Joi.string().max(500).allow('').optional(),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().required(),
+  isActive: Joi.boolean().optional(),
+  secret: Joi.string().min(16).max(200).optional(),
+});
+
+export const updateWebhookSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).max(500).optional(),
+  description: Joi.string().max(500).allow('').optional(),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().optional(),
+  isActive: Joi.boolean().optional(),
+  rotateSecret: Joi.boolean().optional(),
+});
@@ -0,0 +1,36 @@
+// Domain events for other services, written to the outbox in the same transaction as the change.
+// Always pass the transaction's client, after the statement that writes the row the event is about:
+// the row lock it takes is what keeps events for one post in commit order.
+export const recordOutboxEvent = async (
+  client: any,
+  aggregateType: string,
+  aggregateId: string,
+  eventType: string,
+  payload: Record<string, unknown>
+): Promise<void> => {
+  await client.query(`
+    INSERT INTO outbox_events (aggregate_type, aggregate_id, event_type, payload)
+    VALUES ($1, $2, $3, $4)
+  `, [aggregateType, aggregateId, eventType, JSON.stringify(payload)]);
+};
+
+// Record an event carrying the post as it stands inside the transaction, with its category and tag ids
+export const recordPostEvent = async (
+  client: any,
+  eventType: string,
+  postId: string,
+  actorId: string | null
+): Promise<void> => {
+  await client.query(`
+    INSERT INTO outbox_events (aggregate_type, aggregate_id, event_type, payload)
+    SELECT 'post', p.id, $2, jsonb_build_object(
+      'actorId', $3::uuid,
+      'post', (to_jsonb(p) - 'search_vector') || jsonb_build_object(
+        'category_ids', COALESCE((SELECT jsonb_agg(pc.category_id) FROM post_categories pc WHERE pc.post_id = p.id), '[]'::jsonb),
+        'tag_ids', COALESCE((SELECT jsonb_agg(pt.tag_id) FROM post_tags pt WHERE pt.post_id = p.id), '[]'::jsonb)
+      )
+    )
+    FROM posts p
+    WHERE p.id = $1
+  `, [postId, eventType, actorId]);
+};
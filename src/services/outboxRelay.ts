@@ -0,0 +1,96 @@
+import { getDatabase } from '../config/database';
+import { OutboxEvent, OutboxSink } from './outboxSinks';
+
+// Arbitrary key for the advisory lock that keeps a single relay active across replicas
+const OUTBOX_RELAY_LOCK_ID = 724001;
+const RETRY_BASE_SECONDS = 5;
+const RETRY_MAX_SECONDS = 15 * 60;
+
+const getRetryDelaySeconds = (attempt: number): number => {
+  return Math.min(RETRY_BASE_SECONDS * Math.pow(2, attempt - 1), RETRY_MAX_SECONDS);
+};
+
+const toOutboxEvent = (row: any): OutboxEvent => ({
+  id: row.id,
+  sequence: Number(row.sequence),
+  aggregateType: row.aggregate_type,
+  aggregateId: row.aggregate_id,
+  eventType: row.event_type,
+  payload: row.payload,
+  createdAt: row.created_at
+});
+
+/**
+ * Hand pending outbox events to the sink in sequence order.
+ *
+ * An event is marked published only after the sink accepts it, so a crash in between means
+ * it is sent again (at-least-once). When an event fails, later events for the same aggregate
+ * wait behind it until it goes through, which keeps each post's events in order; events for
+ * other aggregates carry on.
+ */
+export const relayOutboxEvents = async (sink: OutboxSink, batchSize: number = 100): Promise<{ published: number; failed: number }> => {
+  const client = await getDatabase().connect();
+  const summary = { published: 0, failed: 0 };
+
+  try {
+    const lockResult = await client.query('SELECT pg_try_advisory_lock($1) as locked', [OUTBOX_RELAY_LOCK_ID]);
+    if (!lockResult.rows[0].locked) {
+      return summary;
+    }
+
+    try {
+      // Skip aggregates whose oldest pending event is still backing off
+      const pendingResult = await client.query(`
+        SELECT e.id, e.sequence, e.aggregate_type, e.aggregate_id, e.event_type, e.payload, e.attempts, e.created_at
+        FROM outbox_events e
+        WHERE e.published_at IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM outbox_events b
+            WHERE b.aggregate_type = e.aggregate_type
+              AND b.aggregate_id = e.aggregate_id
+              AND b.published_at IS NULL
+              AND b.sequence <= e.sequence
+              AND b.next_attempt_at > CURRENT_TIMESTAMP
+          )
+        ORDER BY e.sequence ASC
+        LIMIT $1
+      `, [batchSize]);
+
+      const blockedAggregates = new Set<string>();
+
+      for (const row of pendingResult.rows) {
+        const aggregateKey = `${row.aggregate_type}:${row.aggregate_id}`;
+        if (blockedAggregates.has(aggregateKey)) continue;
+
+        try {
+          await sink.publish(toOutboxEvent(row));
+
+          await client.query(`
+            UPDATE outbox_events
+            SET published_at = CURRENT_TIMESTAMP, attempts = attempts + 1, last_error = NULL, next_attempt_at = NULL
+            WHERE id = $1
+          `, [row.id]);
+          summary.published++;
+        } catch (error: any) {
+          blockedAggregates.add(aggregateKey);
+
+          await client.query(`
+            UPDATE outbox_events
+            SET attempts = attempts + 1, last_error = $2,
+                next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $3)
+            WHERE id = $1
+          `, [row.id, error.message || String(error), getRetryDelaySeconds(row.attempts + 1)]);
+          summary.failed++;
+
+          console.error(`Failed to relay outbox event ${row.id} (${row.event_type}) to ${sink.name} sink:`, error.message || error);
+        }
+      }
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [OUTBOX_RELAY_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+
+  return summary;
+};
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+
+export interface OutboxEvent {
+  id: string;
+  sequence: number;
+  aggregateType: string;
+  aggregateId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  createdAt: Date;
+}
+
+// Where the relay hands events. publish() must only resolve once the event is safely accepted.
+export interface OutboxSink {
+  readonly name: string;
+  publish(event: OutboxEvent): Promise<void>;
+}
+
+// Keeps events in process; meant for tests and local development
+export class InMemorySink implements OutboxSink {
+  readonly name = 'memory';
+  readonly events: OutboxEvent[] = [];
+
+  async publish(event: OutboxEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+// POSTs each event as JSON; receivers should dedupe on the event id since delivery is at-least-once
+export class HttpSink implements OutboxSink {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly timeoutMs: number = 10000) {}
+
+  async publish(event: OutboxEvent): Promise<void> {
+    await axios.post(this.url, event, {
+      timeout: this.timeoutMs,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Event-Id': event.id,
+        'X-Event-Type': event.eventType
+      }
+    });
+  }
+}
+
+// Appends one JSON document per line
+export class FileSink implements OutboxSink {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async publish(event: OutboxEvent): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(event)}\n`);
+  }
+}
+
+// Build the sink named by OUTBOX_SINK, or null when the relay is not configured
+export const createOutboxSink = (): OutboxSink | null => {
+  switch (process.env.OUTBOX_SINK) {
+    case 'memory':
+      return new InMemorySink();
+    case 'http':
+      if (!process.env.OUTBOX_HTTP_URL) {
+        throw new Error('OUTBOX_HTTP_URL is required when OUTBOX_SINK is http');
+      }
+      return new HttpSink(process.env.OUTBOX_HTTP_URL);
+    case 'file':
+      return new FileSink(process.env.OUTBOX_FILE_PATH || 'outbox-events.ndjson');
+    case undefined:
+    case '':
+      return null;
+    default:
+      throw new Error(`Unknown OUTBOX_SINK: ${process.env.OUTBOX_SINK}`);
+  }
+};
@@ -0,0 +1,57 @@
+import { getDatabase } from '../config/database';
+
+// Windows the popular listing can be asked for; each has its own precomputed column
+export const POPULAR_WINDOWS: Record<number, string> = {
+  1: 'views_1d',
+  7: 'views_7d',
+  30: 'views_30d',
+  90: 'views_90d'
+};
+
+// A day's views count half as much every TRENDING_HALF_LIFE_HOURS
+const TRENDING_HALF_LIFE_HOURS = Number(process.env.TRENDING_HALF_LIFE_HOURS) || 24;
+const TRENDING_LOOKBACK_DAYS = 14;
+
+/**
+ * Recompute the popularity table the trending and popular listings read from.
+ *
+ * Scores come from the daily view rollup rather than raw views, and the whole table is
+ * replaced in one transaction so readers always see a complete set.
+ */
+export const refreshPostPopularity = async (): Promise<number> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query('DELETE FROM post_popularity');
+
+    const result = await client.query(`
+      INSERT INTO post_popularity (
+        post_id, trending_score, views_1d, views_7d, views_30d, views_90d, views_all_time, computed_at
+      )
+      SELECT t.post_id,
+             COALESCE(SUM(
+               d.unique_views * power(0.5, ((CURRENT_DATE - d.day) * 24 + 12)::float / $1)
+             ) FILTER (WHERE d.day > CURRENT_DATE - $2::integer), 0),
+             COALESCE(SUM(d.unique_views) FILTER (WHERE d.day > CURRENT_DATE - 1), 0),
+             COALESCE(SUM(d.unique_views) FILTER (WHERE d.day > CURRENT_DATE - 7), 0),
+             COALESCE(SUM(d.unique_views) FILTER (WHERE d.day > CURRENT_DATE - 30), 0),
+             COALESCE(SUM(d.unique_views) FILTER (WHERE d.day > CURRENT_DATE - 90), 0),
+             t.unique_views,
+             CURRENT_TIMESTAMP
+      FROM post_view_totals t
+      LEFT JOIN post_view_daily d ON d.post_id = t.post_id AND d.day > CURRENT_DATE - 90
+      GROUP BY t.post_id, t.unique_views
+    `, [TRENDING_HALF_LIFE_HOURS, TRENDING_LOOKBACK_DAYS]);
+
+    await client.query('COMMIT');
+
+    return result.rowCount || 0;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
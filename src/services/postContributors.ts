@@ -0,0 +1,84 @@
+// Everyone credited on a post, and who among them may change it.
+// posts.author_id stays the primary author; the contributors table credits them as 'author' too.
+export const CONTRIBUTOR_ROLES = ['author', 'co_author', 'editor', 'reviewer'] as const;
+export type ContributorRole = typeof CONTRIBUTOR_ROLES[number];
+
+// Reviewers can read a post's drafts and history but not change it
+export const WRITE_CONTRIBUTOR_ROLES: ContributorRole[] = ['author', 'co_author', 'editor'];
+
+interface PostUser {
+  id: string;
+  role: string;
+}
+
+const isAdminOrEditor = (user: PostUser): boolean => ['admin', 'editor'].includes(user.role);
+
+// SQL condition matching posts the user at $param contributes to, for filtering listings by contributor.
+// The author_id check keeps posts whose author row predates the contributors table.
+export const contributorCondition = (postAlias: string, param: string, writeOnly: boolean = false): string => {
+  const roleFilter = writeOnly
+    ? ` AND contrib.role IN (${WRITE_CONTRIBUTOR_ROLES.map((role) => `'${role}'`).join(', ')})`
+    : '';
+
+  return `(${postAlias}.author_id = ${param}
+    OR EXISTS (SELECT 1 FROM post_contributors contrib
+               WHERE contrib.post_id = ${postAlias}.id AND contrib.user_id = ${param}${roleFilter}))`;
+};
+
+// The user's role on a post, or null when they are not credited on it
+export const getContributorRole = async (client: any, postId: string, userId: string): Promise<ContributorRole | null> => {
+  const result = await client.query(`
+    SELECT COALESCE(
+      (SELECT role FROM post_contributors WHERE post_id = $1 AND user_id = $2),
+      (SELECT 'author' FROM posts WHERE id = $1 AND author_id = $2)
+    ) AS role
+  `, [postId, userId]);
+
+  return result.rows[0].role;
+};
+
+// Site admins and editors may change any post; anyone else needs a contributor role with write rights
+export const canWritePost = async (client: any, postId: string, user: PostUser): Promise<boolean> => {
+  if (isAdminOrEditor(user)) return true;
+
+  const role = await getContributorRole(client, postId, user.id);
+  return role !== null && WRITE_CONTRIBUTOR_ROLES.includes(role);
+};
+
+// Drafts, versions and other unpublished detail are open to every contributor, reviewers included
+export const canReadPost = async (client: any, postId: string, user: PostUser): Promise<boolean> => {
+  if (isAdminOrEditor(user)) return true;
+
+  return (await getContributorRole(client, postId, user.id)) !== null;
+};
+
+// Credit a user on a post, replacing any role they already had.
+// Pass the transaction's client so the credit commits or rolls back with the post.
+export const addPostContributor = async (
+  client: any,
+  postId: string,
+  userId: string,
+  role: ContributorRole,
+  addedBy: string | null
+) => {
+  const result = await client.query(`
+    INSERT INTO post_contributors (post_id, user_id, role, added_by)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (post_id, user_id) DO UPDATE SET role = EXCLUDED.role, added_by = EXCLUDED.added_by
+    RETURNING user_id, role, added_by, created_at
+  `, [postId, userId, role, addedBy]);
+
+  return result.rows[0];
+};
+
+// Credits in display order: authors first, then co-authors, editors and reviewers
+export const getPostContributors = async (client: any, postId: string) => {
+  const result = await client.query(`
+    SELECT user_id, role, added_by, created_at
+    FROM post_contributors
+    WHERE post_id = $1
+    ORDER BY array_position($2::varchar[], role), created_at
+  `, [postId, CONTRIBUTOR_ROLES]);
+
+  return result.rows;
+};
@@ -0,0 +1,16 @@
+// Keep the audit trail of every status change a post goes through.
+// Pass the transaction's client so the entry commits or rolls back with the change itself.
+export const recordStatusTransition = async (
+  client: any,
+  postId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  action: string,
+  actorId: string | null,
+  comment?: string | null
+): Promise<void> => {
+  await client.query(`
+    INSERT INTO post_status_transitions (post_id, from_status, to_status, action, comment, actor_id)
+    VALUES ($1, $2, $3, $4, $5, $6)
+  `, [postId, fromStatus, toStatus, action, comment || null, actorId]);
+};
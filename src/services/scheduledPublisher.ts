@@ -0,0 +1,130 @@
+import os from 'os';
+import { getDatabase } from '../config/database';
+import { recordStatusTransition } from './postTransitions';
+import { emitWebhookEvent } from './webhooks';
+import { recordPostEvent } from './outbox';
+
+const MAX_PUBLISH_ATTEMPTS = Number(process.env.SCHEDULER_MAX_PUBLISH_ATTEMPTS) || 5;
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 60 * 60;
+
+// Identifies this replica in the publish-attempt log
+export const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+export interface PublishResult {
+  publishedPosts: { id: string; title: string; publishedAt: Date }[];
+  failedPosts: { id: string; title: string; attempt: number; error: string; nextAttemptAt: Date | null }[];
+}
+
+const getRetryDelaySeconds = (attempt: number): number => {
+  return Math.min(RETRY_BASE_SECONDS * Math.pow(2, attempt - 1), RETRY_MAX_SECONDS);
+};
+
+/**
+ * Publish every scheduled post that is due, one post per transaction.
+ *
+ * Each post is claimed with FOR UPDATE SKIP LOCKED, so when several replicas run this at
+ * the same time each post is picked up by exactly one of them. A failed publish is rolled
+ * back to a savepoint while the row is still locked, logged, and retried later with
+ * exponential backoff until MAX_PUBLISH_ATTEMPTS is reached.
+ */
+export const publishDuePosts = async (workerId: string = WORKER_ID, limit: number = 100): Promise<PublishResult> => {
+  const db = getDatabase();
+  const result: PublishResult = { publishedPosts: [], failedPosts: [] };
+
+  for (let processed = 0; processed < limit; processed++) {
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const claimResult = await client.query(`
+        SELECT id, title, publish_attempts
+        FROM posts
+        WHERE status = 'scheduled'
+          AND scheduled_at <= CURRENT_TIMESTAMP
+          AND deleted_at IS NULL
+          AND publish_attempts < $1
+          AND (next_publish_attempt_at IS NULL OR next_publish_attempt_at <= CURRENT_TIMESTAMP)
+        ORDER BY scheduled_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      `, [MAX_PUBLISH_ATTEMPTS]);
+
+      if (claimResult.rows.length === 0) {
+        await client.query('COMMIT');
+        break;
+      }
+
+      const post = claimResult.rows[0];
+      const attempt = post.publish_attempts + 1;
+
+      await client.query('SAVEPOINT publish_post');
+
+      try {
+        const publishResult = await client.query(`
+          UPDATE posts
+          SET status = 'published', published_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP,
+              publish_attempts = $2, next_publish_attempt_at = NULL
+          WHERE id = $1
+          RETURNING *
+        `, [post.id, attempt]);
+
+        await recordStatusTransition(client, post.id, 'scheduled', 'published', 'scheduled_publish', null);
+        await recordPostEvent(client, 'post.published', post.id, null);
+
+        await client.query(`
+          INSERT INTO post_publish_attempts (post_id, attempt_number, succeeded, worker_id)
+          VALUES ($1, $2, TRUE, $3)
+        `, [post.id, attempt, workerId]);
+
+        await client.query('COMMIT');
+
+        const { search_vector, ...publishedPost } = publishResult.rows[0];
+        await emitWebhookEvent('post.published', { post: publishedPost });
+
+        result.publishedPosts.push({
+          id: post.id,
+          title: post.title,
+          publishedAt: publishResult.rows[0].published_at
+        });
+      } catch (error: any) {
+        await client.query('ROLLBACK TO SAVEPOINT publish_post');
+
+        const retry = attempt < MAX_PUBLISH_ATTEMPTS;
+        const backoffResult = await client.query(`
+          UPDATE posts
+          SET publish_attempts = $2,
+              next_publish_attempt_at = CASE WHEN $3::boolean
+                THEN CURRENT_TIMESTAMP + make_interval(secs => $4)
+                ELSE NULL END
+          WHERE id = $1
+          RETURNING next_publish_attempt_at
+        `, [post.id, attempt, retry, getRetryDelaySeconds(attempt)]);
+
+        await client.query(`
+          INSERT INTO post_publish_attempts (post_id, attempt_number, succeeded, error, worker_id)
+          VALUES ($1, $2, FALSE, $3, $4)
+        `, [post.id, attempt, error.message || String(error), workerId]);
+
+        await client.query('COMMIT');
+
+        console.error(`Failed to publish scheduled post ${post.id} (attempt ${attempt}):`, error);
+        result.failedPosts.push({
+          id: post.id,
+          title: post.title,
+          attempt,
+          error: error.message || String(error),
+          nextAttemptAt: backoffResult.rows[0].next_publish_attempt_at
+        });
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return result;
+};
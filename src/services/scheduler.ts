@@ -1,10 +1,21 @@
-import cron from 'node-cron';
-import axios from 'axios';
+import cron, { ScheduledTask } from 'node-cron';
+import { getDatabase } from '../config/database';
+import { publishDuePosts, WORKER_ID } from './scheduledPublisher';
+import { emitWebhookEvent, triggerWebhookDelivery } from './webhooks';
+import { createOutboxSink } from './outboxSinks';
+import { relayOutboxEvents } from './outboxRelay';
+import { rollUpPostViews } from './viewRollups';
+import { refreshPostPopularity } from './popularity';
 
-const CONTENT_SERVICE_URL = process.env.CONTENT_SERVICE_URL || 'http://localhost:3002';
+const OUTBOX_RETENTION_DAYS = Number(process.env.OUTBOX_RETENTION_DAYS) || 7;
 
+// Every job works directly against the database and is safe to run on several replicas at once
 class PostScheduler {
   private isRunning = false;
+  private isTicking = false;
+  private isRelaying = false;
+  private tasks: ScheduledTask[] = [];
+  private outboxSink = createOutboxSink();
 
   constructor() {
     this.start();
@@ -13,33 +24,198 @@ class PostScheduler {
   private start() {
     if (this.isRunning) return;
     
-    // Run every minute to check for scheduled posts
-    cron.schedule('* * * * *', async () => {
+    // Run every minute to check for scheduled posts, skipping a tick if the last one is still going
+    this.tasks.push(cron.schedule('* * * * *', async () => {
+      if (this.isTicking) return;
+      this.isTicking = true;
+
       try {
         await this.publishScheduledPosts();
+        await this.expirePosts();
+
+        // Pick up webhook retries that have come due
+        triggerWebhookDelivery();
       } catch (error) {
         console.error('Error in post scheduler:', error);
+      } finally {
+        this.isTicking = false;
+      }
+    }));
+
+    // Purge posts that have been in the trash longer than the retention period, once an hour
+    this.tasks.push(cron.schedule('0 * * * *', async () => {
+      try {
+        await this.purgeTrashedPosts();
+        await this.purgePublishedOutboxEvents();
+      } catch (error) {
+        console.error('Error in trash purge:', error);
+      }
+    }));
+
+    // Roll raw views up into the daily counters and totals every five minutes
+    this.tasks.push(cron.schedule('*/5 * * * *', async () => {
+      try {
+        await this.rollUpPostViews();
+      } catch (error) {
+        console.error('Error in view rollup:', error);
+      }
+    }));
+
+    // Rebuild the trending and popular scores every fifteen minutes
+    this.tasks.push(cron.schedule('*/15 * * * *', async () => {
+      try {
+        await refreshPostPopularity();
+      } catch (error) {
+        console.error('Error refreshing post popularity:', error);
       }
-    });
+    }));
+
+    // Relay outbox events every few seconds; without a sink they stay pending in the table
+    if (this.outboxSink) {
+      this.tasks.push(cron.schedule('*/5 * * * * *', async () => {
+        if (this.isRelaying) return;
+        this.isRelaying = true;
+
+        try {
+          await this.relayOutboxEvents();
+        } catch (error) {
+          console.error('Error in outbox relay:', error);
+        } finally {
+          this.isRelaying = false;
+        }
+      }));
+      console.log(`Outbox relay started - publishing to the ${this.outboxSink.name} sink`);
+    }
 
     this.isRunning = true;
-    console.log('Post scheduler started - checking for scheduled posts every minute');
+    console.log('Post scheduler started - checking for scheduled and expiring posts every minute');
   }
 
   private async publishScheduledPosts() {
     try {
-      const response = await axios.post(`${CONTENT_SERVICE_URL}/api/posts/scheduled/publish`);
+      const { publishedPosts, failedPosts } = await publishDuePosts(WORKER_ID);
       
-      if (response.data.publishedPosts.length > 0) {
-        console.log(`Published ${response.data.publishedPosts.length} scheduled posts:`, 
-          response.data.publishedPosts.map((p: any) => p.title).join(', '));
+      if (publishedPosts.length > 0) {
+        console.log(`Published ${publishedPosts.length} scheduled posts:`, 
+          publishedPosts.map((p) => p.title).join(', '));
+      }
+
+      if (failedPosts.length > 0) {
+        console.error(`Failed to publish ${failedPosts.length} scheduled posts:`,
+          failedPosts.map((p) => `${p.title} (attempt ${p.attempt})`).join(', '));
       }
     } catch (error) {
       console.error('Failed to publish scheduled posts:', error);
     }
   }
 
+  private async expirePosts() {
+    try {
+      const db = getDatabase();
+
+      // Move expired posts to their fallback status and record the transition and outbox event in one statement.
+      // The expiry is spent once it fires, so it is cleared and cannot hide the post if it goes live again.
+      const result = await db.query(`
+        WITH expired AS (
+          UPDATE posts
+          SET status = expiry_status, expires_at = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE status = 'published'
+            AND expires_at <= CURRENT_TIMESTAMP
+            AND deleted_at IS NULL
+          RETURNING posts.*
+        ), transitions AS (
+          INSERT INTO post_status_transitions (post_id, from_status, to_status, action)
+          SELECT id, 'published', status, 'expire' FROM expired
+        ), events AS (
+          INSERT INTO outbox_events (aggregate_type, aggregate_id, event_type, payload)
+          SELECT 'post', e.id, 'post.expired', jsonb_build_object(
+            'actorId', NULL,
+            'post', (to_jsonb(e) - 'search_vector') || jsonb_build_object(
+              'category_ids', COALESCE((SELECT jsonb_agg(pc.category_id) FROM post_categories pc WHERE pc.post_id = e.id), '[]'::jsonb),
+              'tag_ids', COALESCE((SELECT jsonb_agg(pt.tag_id) FROM post_tags pt WHERE pt.post_id = e.id), '[]'::jsonb)
+            )
+          )
+          FROM expired e
+        )
+        SELECT id, title, slug, status, expires_at, updated_at FROM expired
+      `);
+
+      if (result.rows.length > 0) {
+        console.log(`Expired ${result.rows.length} posts:`,
+          result.rows.map((p: any) => `${p.title} (${p.status})`).join(', '));
+      }
+
+      for (const post of result.rows) {
+        await emitWebhookEvent(post.status === 'archived' ? 'post.archived' : 'post.updated', { post });
+      }
+    } catch (error) {
+      console.error('Failed to expire posts:', error);
+    }
+  }
+
+  private async purgeTrashedPosts() {
+    try {
+      const db = getDatabase();
+
+      // Views, versions, categories and tags go with the post through ON DELETE CASCADE
+      const result = await db.query(`
+        WITH purged AS (
+          DELETE FROM posts p
+          USING blog_settings bs
+          WHERE p.deleted_at IS NOT NULL
+            AND p.deleted_at < CURRENT_TIMESTAMP - make_interval(days => bs.trash_retention_days)
+          RETURNING p.id, p.title, p.slug
+        ), events AS (
+          INSERT INTO outbox_events (aggregate_type, aggregate_id, event_type, payload)
+          SELECT 'post', id, 'post.purged', jsonb_build_object('actorId', NULL, 'post', to_jsonb(purged))
+          FROM purged
+        )
+        SELECT id, title FROM purged
+      `);
+
+      if (result.rows.length > 0) {
+        console.log(`Purged ${result.rows.length} trashed posts:`,
+          result.rows.map((p: any) => p.title).join(', '));
+      }
+    } catch (error) {
+      console.error('Failed to purge trashed posts:', error);
+    }
+  }
+
+  private async rollUpPostViews() {
+    const { days, posts } = await rollUpPostViews();
+
+    if (posts > 0) {
+      console.log(`Rolled up views for ${posts} posts across ${days} days`);
+    }
+  }
+
+  private async relayOutboxEvents() {
+    if (!this.outboxSink) return;
+
+    const { published, failed } = await relayOutboxEvents(this.outboxSink);
+
+    if (failed > 0) {
+      console.error(`Outbox relay published ${published} events, ${failed} failed and will be retried`);
+    }
+  }
+
+  private async purgePublishedOutboxEvents() {
+    try {
+      const db = getDatabase();
+
+      await db.query(`
+        DELETE FROM outbox_events
+        WHERE published_at < CURRENT_TIMESTAMP - make_interval(days => $1)
+      `, [OUTBOX_RETENTION_DAYS]);
+    } catch (error) {
+      console.error('Failed to purge published outbox events:', error);
+    }
+  }
+
   public stop() {
+    this.tasks.forEach((task) => task.stop());
+    this.tasks = [];
     this.isRunning = false;
     console.log('Post scheduler stopped');
   }
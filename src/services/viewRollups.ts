@@ -0,0 +1,82 @@
+import { getDatabase } from '../config/database';
+
+// Arbitrary key for the advisory lock that keeps replicas from rolling up at the same time
+const VIEW_ROLLUP_LOCK_ID = 724002;
+// Views whose transaction commits just after a run still land in a day the next run recomputes
+const LATE_VIEW_GRACE = '5 minutes';
+
+/**
+ * Roll raw post_views up into per-post daily counters and lifetime totals.
+ *
+ * Every run recomputes whole days from the raw rows, starting with the day of the previous
+ * run, so it is idempotent and catches views that arrived after that day was last counted.
+ * The first run backfills from the oldest view.
+ */
+export const rollUpPostViews = async (): Promise<{ days: number; posts: number }> => {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const lockResult = await client.query('SELECT pg_try_advisory_xact_lock($1) as locked', [VIEW_ROLLUP_LOCK_ID]);
+    if (!lockResult.rows[0].locked) {
+      await client.query('COMMIT');
+      return { days: 0, posts: 0 };
+    }
+
+    const stateResult = await client.query(`
+      SELECT CURRENT_TIMESTAMP as started_at,
+             COALESCE(
+               (SELECT rolled_up_through - $1::interval FROM view_rollup_state WHERE id = TRUE),
+               (SELECT MIN(viewed_at) FROM post_views)
+             )::date as from_day
+    `, [LATE_VIEW_GRACE]);
+
+    const { started_at: startedAt, from_day: fromDay } = stateResult.rows[0];
+    let days = 0;
+    let posts = 0;
+
+    if (fromDay) {
+      const dailyResult = await client.query(`
+        INSERT INTO post_view_daily (post_id, day, unique_views, raw_views)
+        SELECT post_id, viewed_at::date, COUNT(*) FILTER (WHERE is_unique), COUNT(*)
+        FROM post_views
+        WHERE viewed_at >= $1::date
+        GROUP BY post_id, viewed_at::date
+        ON CONFLICT (post_id, day) DO UPDATE SET
+          unique_views = EXCLUDED.unique_views,
+          raw_views = EXCLUDED.raw_views
+        RETURNING day
+      `, [fromDay]);
+      days = new Set(dailyResult.rows.map((row: any) => String(row.day))).size;
+
+      const totalsResult = await client.query(`
+        INSERT INTO post_view_totals (post_id, unique_views, raw_views, updated_at)
+        SELECT post_id, SUM(unique_views), SUM(raw_views), CURRENT_TIMESTAMP
+        FROM post_view_daily
+        WHERE post_id IN (SELECT post_id FROM post_view_daily WHERE day >= $1::date)
+        GROUP BY post_id
+        ON CONFLICT (post_id) DO UPDATE SET
+          unique_views = EXCLUDED.unique_views,
+          raw_views = EXCLUDED.raw_views,
+          updated_at = EXCLUDED.updated_at
+      `, [fromDay]);
+      posts = totalsResult.rowCount || 0;
+    }
+
+    await client.query(`
+      INSERT INTO view_rollup_state (id, rolled_up_through)
+      VALUES (TRUE, $1)
+      ON CONFLICT (id) DO UPDATE SET rolled_up_through = EXCLUDED.rolled_up_through
+    `, [startedAt]);
+
+    await client.query('COMMIT');
+
+    return { days, posts };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
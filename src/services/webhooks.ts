@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { getDatabase } from '../config/database';
+
+export const WEBHOOK_EVENTS = [
+  'post.created',
+  'post.updated',
+  'post.published',
+  'post.scheduled',
+  'post.archived',
+  'post.deleted',
+  'settings.updated'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+const MAX_DELIVERY_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+const DELIVERY_TIMEOUT_MS = 10000;
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+// A claimed delivery is hidden from other workers for this long in case its worker dies mid-request
+const CLAIM_LEASE_SECONDS = 5 * 60;
+const MAX_STORED_RESPONSE_LENGTH = 2000;
+
+let isDelivering = false;
+let deliveryRequested = false;
+
+const getRetryDelaySeconds = (attempt: number): number => {
+  return Math.min(RETRY_BASE_SECONDS * Math.pow(2, attempt - 1), RETRY_MAX_SECONDS);
+};
+
+export const generateWebhookSecret = (): string => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+// Receivers recompute this over `${timestamp}.${body}` with their copy of the secret
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+/**
+ * Queue an event for every active webhook subscribed to it and start delivering.
+ *
+ * Called once the change it describes has been committed. Failures are logged rather than
+ * thrown so a webhook problem never fails the request that caused the event.
+ */
+export const emitWebhookEvent = async (event: WebhookEvent, data: Record<string, unknown>): Promise<void> => {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(`
+      INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload)
+      SELECT w.id, $1, $2, $3
+      FROM webhooks w
+      WHERE w.is_active = TRUE AND $2 = ANY(w.events)
+    `, [crypto.randomUUID(), event, JSON.stringify(data)]);
+
+    if (result.rowCount && result.rowCount > 0) {
+      triggerWebhookDelivery();
+    }
+  } catch (error) {
+    console.error(`Failed to queue webhook event ${event}:`, error);
+  }
+};
+
+// Kick off a delivery run in the background, or ask the current one to go round again
+export const triggerWebhookDelivery = (): void => {
+  if (isDelivering) {
+    deliveryRequested = true;
+    return;
+  }
+
+  setImmediate(async () => {
+    try {
+      await deliverDueWebhooks();
+    } catch (error) {
+      console.error('Error delivering webhooks:', error);
+    }
+  });
+};
+
+const sendDelivery = async (delivery: any) => {
+  const body = JSON.stringify({
+    id: delivery.event_id,
+    event: delivery.event,
+    createdAt: delivery.created_at,
+    data: delivery.payload
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  try {
+    const response = await axios.post(delivery.url, body, {
+      timeout: DELIVERY_TIMEOUT_MS,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'G11-Content-Service-Webhooks',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(delivery.secret, timestamp, body)}`
+      },
+      // Any status is recorded; only 2xx counts as delivered
+      validateStatus: () => true,
+      transformResponse: (data) => data
+    });
+
+    const responseBody = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+    const succeeded = response.status >= 200 && response.status < 300;
+
+    return {
+      succeeded,
+      responseStatus: response.status,
+      responseBody: responseBody ? responseBody.slice(0, MAX_STORED_RESPONSE_LENGTH) : null,
+      error: succeeded ? null : `Receiver responded with HTTP ${response.status}`,
+      durationMs: Date.now() - startedAt
+    };
+  } catch (error: any) {
+    return {
+      succeeded: false,
+      responseStatus: null,
+      responseBody: null,
+      error: error.message || String(error),
+      durationMs: Date.now() - startedAt
+    };
+  }
+};
+
+/**
+ * Deliver every pending webhook delivery that is due.
+ *
+ * Deliveries are claimed with FOR UPDATE SKIP LOCKED and leased for a few minutes, so
+ * replicas never send the same attempt twice and the HTTP call is made outside any
+ * transaction. Failed attempts back off exponentially until MAX_DELIVERY_ATTEMPTS.
+ */
+export const deliverDueWebhooks = async (limit: number = 100): Promise<{ delivered: number; failed: number }> => {
+  const db = getDatabase();
+  const summary = { delivered: 0, failed: 0 };
+
+  isDelivering = true;
+
+  try {
+    do {
+      deliveryRequested = false;
+
+      for (let processed = 0; processed < limit; processed++) {
+        const claimResult = await db.query(`
+          UPDATE webhook_deliveries d
+          SET next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $1)
+          FROM webhooks w
+          WHERE d.id = (
+            SELECT d2.id
+            FROM webhook_deliveries d2
+            JOIN webhooks w2 ON w2.id = d2.webhook_id
+            WHERE d2.status = 'pending'
+              AND d2.next_attempt_at <= CURRENT_TIMESTAMP
+              AND w2.is_active = TRUE
+            ORDER BY d2.next_attempt_at ASC
+            LIMIT 1
+            FOR UPDATE OF d2 SKIP LOCKED
+          )
+          AND w.id = d.webhook_id
+          RETURNING d.*, w.url, w.secret
+        `, [CLAIM_LEASE_SECONDS]);
+
+        if (claimResult.rows.length === 0) break;
+
+        const delivery = claimResult.rows[0];
+        const attempt = delivery.attempts + 1;
+        const outcome = await sendDelivery(delivery);
+
+        await db.query(`
+          INSERT INTO webhook_delivery_attempts
+            (delivery_id, attempt_number, response_status, response_body, error, duration_ms)
+          VALUES ($1, $2, $3, $4, $5, $6)
+        `, [delivery.id, attempt, outcome.responseStatus, outcome.responseBody, outcome.error, outcome.durationMs]);
+
+        if (outcome.succeeded) {
+          await db.query(`
+            UPDATE webhook_deliveries
+            SET status = 'succeeded', attempts = $2, last_response_status = $3, last_error = NULL,
+                delivered_at = CURRENT_TIMESTAMP, next_attempt_at = NULL
+            WHERE id = $1
+          `, [delivery.id, attempt, outcome.responseStatus]);
+          summary.delivered++;
+        } else {
+          const retry = attempt < MAX_DELIVERY_ATTEMPTS;
+          await db.query(`
+            UPDATE webhook_deliveries
+            SET status = CASE WHEN $4::boolean THEN 'pending' ELSE 'failed' END,
+                attempts = $2, last_response_status = $3, last_error = $5,
+                next_attempt_at = CASE WHEN $4::boolean
+                  THEN CURRENT_TIMESTAMP + make_interval(secs => $6)
+                  ELSE NULL END
+            WHERE id = $1
+          `, [delivery.id, attempt, outcome.responseStatus, retry, outcome.error, getRetryDelaySeconds(attempt)]);
+          summary.failed++;
+        }
+      }
+    } while (deliveryRequested);
+  } finally {
+    isDelivering = false;
+  }
+
+  return summary;
+};
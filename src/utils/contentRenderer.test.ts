@@ -0,0 +1,42 @@
+import { renderContent } from './contentRenderer';
+import { SanitizePolicy } from './sanitize';
+
+describe('renderContent', () => {
+  it('stores HTML posts sanitized and reports what was removed', () => {
+    const rendered = renderContent('<h2>Intro</h2><p onmouseover="x()">Hi</p><script>x()</script>', 'html');
+
+    expect(rendered.source).toBe('<h2>Intro</h2><p>Hi</p>');
+    expect(rendered.html).toBe('<h2 id="intro">Intro</h2><p>Hi</p>');
+    expect(rendered.toc).toEqual([{ level: 2, text: 'Intro', id: 'intro' }]);
+    expect(rendered.sanitization).toEqual({
+      changed: true,
+      removedTags: ['script'],
+      removedAttributes: ['p[onmouseover]'],
+      blockedUrls: []
+    });
+  });
+
+  it('keeps markdown source but sanitizes the rendered HTML', () => {
+    const source = '[click](javascript:alert(1))\n\n<img src="x.png" onerror="alert(1)">';
+    const rendered = renderContent(source, 'markdown');
+
+    expect(rendered.source).toBe(source);
+    expect(rendered.html).not.toMatch(/javascript:|onerror/);
+    expect(rendered.sanitization.changed).toBe(true);
+  });
+
+  it('escapes markup in plain text', () => {
+    const rendered = renderContent('<script>alert(1)</script>', 'plaintext');
+
+    expect(rendered.html).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    expect(rendered.sanitization.changed).toBe(false);
+  });
+
+  it('applies the given policy', () => {
+    const policy: SanitizePolicy = { allowedTags: ['p'], allowedAttributes: {}, iframeHosts: [] };
+    const rendered = renderContent('<p>Hi <em>there</em></p>', 'html', policy);
+
+    expect(rendered.html).toBe('<p>Hi there</p>');
+    expect(rendered.sanitization.removedTags).toEqual(['em']);
+  });
+});
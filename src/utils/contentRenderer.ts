@@ -0,0 +1,134 @@
+import { Marked } from 'marked';
+import slugify from 'slugify';
+import { sanitizeContentHtml, SanitizePolicy, SanitizeReport, DEFAULT_SANITIZE_POLICY } from './sanitize';
+
+export const CONTENT_FORMATS = ['markdown', 'html', 'plaintext'] as const;
+
+export type ContentFormat = typeof CONTENT_FORMATS[number];
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface RenderedContent {
+  // The content to store: sanitized for HTML posts, the author's source otherwise
+  source: string;
+  html: string;
+  toc: TocEntry[];
+  sanitization: SanitizeReport;
+}
+
+const markdown = new Marked({ gfm: true, breaks: false });
+
+const HEADING_PATTERN = /<h([1-6])(\s[^>]*)?>([\s\S]*?)<\/h\1>/gi;
+const ID_ATTRIBUTE_PATTERN = /\sid\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+// Decode in a single pass, so "&amp;lt;" becomes "&lt;" rather than "<"
+export const decodeEntities = (value: string): string => {
+  return value.replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') {
+      return NAMED_ENTITIES[name] ?? entity;
+    }
+
+    const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+};
+
+// Plain text keeps its paragraphs and line breaks and nothing else
+const renderPlaintext = (content: string): string => {
+  return content
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, '<br>')}</p>`)
+    .join('\n');
+};
+
+// Give every heading a unique id to link to, keeping ids the author already set, and collect the TOC
+const addHeadingAnchors = (html: string): { html: string; toc: TocEntry[] } => {
+  const toc: TocEntry[] = [];
+  const usedIds = new Map<string, number>();
+
+  const withAnchors = html.replace(HEADING_PATTERN, (match, level: string, attributes: string = '', inner: string) => {
+    const text = decodeEntities(inner.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+    if (!text) return match;
+
+    const existingId = attributes.match(ID_ATTRIBUTE_PATTERN);
+    const baseId = existingId
+      ? (existingId[1] ?? existingId[2])
+      : slugify(text, { lower: true, strict: true }) || 'section';
+
+    const seen = usedIds.get(baseId) || 0;
+    usedIds.set(baseId, seen + 1);
+    const id = seen === 0 ? baseId : `${baseId}-${seen + 1}`;
+
+    toc.push({ level: Number(level), text, id });
+
+    const otherAttributes = attributes.replace(ID_ATTRIBUTE_PATTERN, '');
+    return `<h${level} id="${escapeHtml(id)}"${otherAttributes}>${inner}</h${level}>`;
+  });
+
+  return { html: withAnchors, toc };
+};
+
+/**
+ * Render stored post content to sanitized HTML plus a table of contents.
+ *
+ * Markdown goes through GFM (fenced code blocks keep a language-* class for client-side
+ * highlighting), HTML is only sanitized, and plain text is escaped into paragraphs.
+ * The sanitizer report says what the policy removed from the rendered HTML.
+ */
+export const renderContent = (
+  content: string | null | undefined,
+  format: ContentFormat = 'html',
+  policy: SanitizePolicy = DEFAULT_SANITIZE_POLICY
+): RenderedContent => {
+  if (!content) {
+    return {
+      source: content || '',
+      html: '',
+      toc: [],
+      sanitization: { changed: false, removedTags: [], removedAttributes: [], blockedUrls: [] }
+    };
+  }
+
+  let html: string;
+  if (format === 'markdown') {
+    html = markdown.parse(content, { async: false }) as string;
+  } else if (format === 'plaintext') {
+    html = renderPlaintext(content);
+  } else {
+    html = content;
+  }
+
+  const sanitized = sanitizeContentHtml(html, policy);
+  const { html: anchored, toc } = addHeadingAnchors(sanitized.html);
+
+  return {
+    source: format === 'html' ? sanitized.html : content,
+    html: anchored,
+    toc,
+    sanitization: sanitized.report
+  };
+};
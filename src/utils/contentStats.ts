@@ -0,0 +1,52 @@
+import { decodeEntities } from './contentRenderer';
+
+export const DEFAULT_WORDS_PER_MINUTE = 200;
+const EXCERPT_MAX_LENGTH = 300;
+// A sentence break this early would make the excerpt too short to be useful
+const EXCERPT_MIN_LENGTH = 80;
+
+// Block-level tags end a run of text, so their contents are never glued into one word
+const BLOCK_TAG_PATTERN = /<\/?(p|div|h[1-6]|li|ul|ol|blockquote|pre|tr|td|th|br|hr|figure|figcaption)\b[^>]*>/gi;
+
+// Plain text of rendered HTML, with code blocks and tags removed and whitespace collapsed
+export const htmlToText = (html: string): string => {
+  return decodeEntities(
+    html
+      .replace(/<pre\b[\s\S]*?<\/pre>/gi, ' ')
+      .replace(BLOCK_TAG_PATTERN, ' ')
+      .replace(/<[^>]+>/g, '')
+  ).replace(/\s+/g, ' ').trim();
+};
+
+export const countWords = (text: string): number => {
+  return text ? text.split(' ').filter((word) => /[\p{L}\p{N}]/u.test(word)).length : 0;
+};
+
+export const getReadingTimeMinutes = (wordCount: number, wordsPerMinute: number = DEFAULT_WORDS_PER_MINUTE): number => {
+  return wordCount === 0 ? 0 : Math.max(1, Math.ceil(wordCount / wordsPerMinute));
+};
+
+/**
+ * Build an excerpt from rendered HTML.
+ *
+ * Cuts at the last sentence end that fits in maxLength, falling back to the last whole word
+ * with an ellipsis when the opening sentence is too long or too short.
+ */
+export const generateExcerpt = (html: string, maxLength: number = EXCERPT_MAX_LENGTH): string => {
+  // Headings read badly when run into the body text, so they are only used when there is nothing else
+  const text = htmlToText(html.replace(/<h([1-6])\b[\s\S]*?<\/h\1>/gi, ' ')) || htmlToText(html);
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const window = text.slice(0, maxLength + 1);
+  const sentenceEnds = [...window.matchAll(/[.!?]["')\]]?(?=\s)/g)];
+  const lastSentenceEnd = sentenceEnds.length > 0 ? sentenceEnds[sentenceEnds.length - 1] : null;
+
+  if (lastSentenceEnd && lastSentenceEnd.index! + lastSentenceEnd[0].length >= EXCERPT_MIN_LENGTH) {
+    return window.slice(0, lastSentenceEnd.index! + lastSentenceEnd[0].length);
+  }
+
+  const lastSpace = window.lastIndexOf(' ', maxLength - 1);
+  return `${window.slice(0, lastSpace > 0 ? lastSpace : maxLength - 1).replace(/[\s,;:.-]+$/, '')}…`;
+};
@@ -0,0 +1,67 @@
+import { diffWordsWithSpace, createTwoFilesPatch } from 'diff';
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+export interface FieldChange {
+  changed: boolean;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TextChange {
+  changed: boolean;
+  additions: number;
+  deletions: number;
+  segments: DiffSegment[];
+}
+
+const countWords = (value: string): number => {
+  return value.split(/\s+/).filter(Boolean).length;
+};
+
+// Word-level diff of two texts, with runs of whitespace kept so the segments rebuild either side
+export const diffText = (from: string | null | undefined, to: string | null | undefined): TextChange => {
+  const changes = diffWordsWithSpace(from || '', to || '');
+
+  const segments: DiffSegment[] = changes.map((change) => ({
+    type: change.added ? 'insert' : change.removed ? 'delete' : 'equal',
+    value: change.value
+  }));
+
+  return {
+    changed: segments.some((segment) => segment.type !== 'equal'),
+    additions: segments.filter((s) => s.type === 'insert').reduce((sum, s) => sum + countWords(s.value), 0),
+    deletions: segments.filter((s) => s.type === 'delete').reduce((sum, s) => sum + countWords(s.value), 0),
+    segments
+  };
+};
+
+export const diffField = (from: unknown, to: unknown): FieldChange => {
+  return {
+    changed: JSON.stringify(from ?? null) !== JSON.stringify(to ?? null),
+    from: from ?? null,
+    to: to ?? null
+  };
+};
+
+// Unified diff over a set of named text fields, one file section per changed field
+export const unifiedDiff = (
+  fromLabel: string,
+  toLabel: string,
+  fields: Record<string, { from: string | null | undefined; to: string | null | undefined }>
+): string => {
+  return Object.entries(fields)
+    .filter(([, values]) => (values.from || '') !== (values.to || ''))
+    .map(([name, values]) => createTwoFilesPatch(
+      `${name}`,
+      `${name}`,
+      `${values.from || ''}\n`,
+      `${values.to || ''}\n`,
+      fromLabel,
+      toLabel
+    ))
+    .join('');
+};
@@ -0,0 +1,188 @@
+import { escapeXml } from './xml';
+import { getPostUrl, getSiteUrl } from './urls';
+import { DEFAULT_LOCALE } from './locales';
+
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export interface HeadMetadata {
+  title: string;
+  description: string | null;
+  canonicalUrl: string;
+  alternates: HreflangAlternate[];
+  openGraph: Record<string, string | string[]>;
+  twitter: Record<string, string>;
+  jsonLd: Record<string, unknown>;
+}
+
+interface MetadataPost {
+  id: string;
+  title: string;
+  slug: string;
+  locale: string;
+  excerpt: string | null;
+  meta_title: string | null;
+  meta_description: string | null;
+  featured_image_url: string | null;
+  published_at: Date | string | null;
+  updated_at: Date | string | null;
+  word_count?: number | null;
+  categories?: { name: string }[];
+  tags?: { name: string }[];
+  // Live translations of the post, including the post itself
+  translations?: { locale: string; slug: string }[];
+}
+
+// Social previews are cut off well before this; keep generated descriptions readable
+const DESCRIPTION_MAX_LENGTH = 200;
+
+const toIsoString = (value: Date | string | null): string | undefined => {
+  return value ? new Date(value).toISOString() : undefined;
+};
+
+// Crawlers need absolute image URLs, so relative ones are resolved against the site
+const toAbsoluteUrl = (value: string | null | undefined, siteUrl: string): string | undefined => {
+  if (!value) return undefined;
+
+  try {
+    return new URL(value, `${siteUrl}/`).toString();
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// social_twitter holds a profile URL; cards want the @handle
+const getTwitterHandle = (profileUrl: string | null | undefined): string | undefined => {
+  if (!profileUrl) return undefined;
+
+  const handle = profileUrl.trim().replace(/\/+$/, '').split('/').pop();
+  return handle ? `@${handle.replace(/^@/, '')}` : undefined;
+};
+
+// Build hreflang links for a translation group, pointing x-default at the default-locale version
+export const getHreflangAlternates = (siteUrl: string, translations: { locale: string; slug: string }[]): HreflangAlternate[] => {
+  const alternates = translations.map((translation) => ({
+    hreflang: translation.locale,
+    href: getPostUrl(siteUrl, translation.slug, translation.locale)
+  }));
+
+  const fallback = translations.find((translation) => translation.locale === DEFAULT_LOCALE);
+  if (fallback) {
+    alternates.push({ hreflang: 'x-default', href: getPostUrl(siteUrl, fallback.slug, fallback.locale) });
+  }
+
+  return alternates;
+};
+
+const truncate = (value: string, maxLength: number): string => {
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+};
+
+/**
+ * Build the head metadata for a post.
+ *
+ * Post fields win; the blog settings fill in whatever the post leaves out (description,
+ * image, site name and Twitter account).
+ */
+export const buildPostMetadata = (post: MetadataPost, settings: any): HeadMetadata => {
+  const siteUrl = getSiteUrl(settings);
+  const canonicalUrl = getPostUrl(siteUrl, post.slug, post.locale);
+  const siteName = settings.seo_meta_title || settings.blog_title;
+
+  const title = post.meta_title || post.title;
+  const rawDescription = post.meta_description || post.excerpt || settings.seo_meta_description || null;
+  const description = rawDescription ? truncate(rawDescription, DESCRIPTION_MAX_LENGTH) : null;
+  const image = toAbsoluteUrl(post.featured_image_url, siteUrl) || toAbsoluteUrl(settings.blog_logo_url, siteUrl);
+  const logo = toAbsoluteUrl(settings.blog_logo_url, siteUrl);
+  const twitterHandle = getTwitterHandle(settings.social_twitter);
+  const publishedTime = toIsoString(post.published_at);
+  const modifiedTime = toIsoString(post.updated_at);
+  const tags = (post.tags || []).map((tag) => tag.name);
+  const sections = (post.categories || []).map((category) => category.name);
+  const translations = post.translations || [];
+  // Only worth advertising when there is more than one language
+  const alternates = translations.length > 1 ? getHreflangAlternates(siteUrl, translations) : [];
+
+  const openGraph: Record<string, string | string[]> = {
+    'og:type': 'article',
+    'og:title': title,
+    'og:url': canonicalUrl,
+    'og:site_name': siteName,
+    'og:locale': post.locale.replace('-', '_')
+  };
+  const otherLocales = translations
+    .filter((translation) => translation.locale !== post.locale)
+    .map((translation) => translation.locale.replace('-', '_'));
+  if (otherLocales.length > 0) openGraph['og:locale:alternate'] = otherLocales;
+  if (description) openGraph['og:description'] = description;
+  if (image) openGraph['og:image'] = image;
+  if (publishedTime) openGraph['article:published_time'] = publishedTime;
+  if (modifiedTime) openGraph['article:modified_time'] = modifiedTime;
+  if (sections.length > 0) openGraph['article:section'] = sections[0];
+  if (tags.length > 0) openGraph['article:tag'] = tags;
+
+  const twitter: Record<string, string> = {
+    'twitter:card': post.featured_image_url ? 'summary_large_image' : 'summary',
+    'twitter:title': title
+  };
+  if (description) twitter['twitter:description'] = description;
+  if (image) twitter['twitter:image'] = image;
+  if (twitterHandle) twitter['twitter:site'] = twitterHandle;
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: post.title,
+    inLanguage: post.locale,
+    url: canonicalUrl,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': canonicalUrl },
+    publisher: {
+      '@type': 'Organization',
+      name: settings.blog_title,
+      url: siteUrl,
+      ...(logo ? { logo: { '@type': 'ImageObject', url: logo } } : {})
+    }
+  };
+  if (description) jsonLd.description = description;
+  if (image) jsonLd.image = [image];
+  if (publishedTime) jsonLd.datePublished = publishedTime;
+  if (modifiedTime) jsonLd.dateModified = modifiedTime;
+  if (post.word_count) jsonLd.wordCount = post.word_count;
+  if (sections.length > 0) jsonLd.articleSection = sections;
+  if (tags.length > 0) jsonLd.keywords = tags.join(', ');
+
+  return { title, description, canonicalUrl, alternates, openGraph, twitter, jsonLd };
+};
+
+// Render the metadata as tags ready to drop into <head>
+export const renderMetadataHtml = (metadata: HeadMetadata): string => {
+  const lines = [
+    `<title>${escapeXml(metadata.title)}</title>`,
+    ...(metadata.description ? [`<meta name="description" content="${escapeXml(metadata.description)}">`] : []),
+    `<link rel="canonical" href="${escapeXml(metadata.canonicalUrl)}">`,
+    ...metadata.alternates.map((alternate) =>
+      `<link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}">`)
+  ];
+
+  for (const [property, value] of Object.entries(metadata.openGraph)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      lines.push(`<meta property="${property}" content="${escapeXml(item)}">`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(metadata.twitter)) {
+    lines.push(`<meta name="${name}" content="${escapeXml(value)}">`);
+  }
+
+  // Escaping "<" keeps a "</script>" inside any field from closing the tag early
+  const jsonLd = JSON.stringify(metadata.jsonLd).replace(/</g, '\\u003c');
+  lines.push(`<script type="application/ld+json">${jsonLd}</script>`);
+
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,6 @@
+// Locale new posts get when none is given. Posts that predate locales were backfilled with it,
+// so it has to match the DEFAULT on posts.locale and post_slug_history.locale in the schema.
+export const DEFAULT_LOCALE = 'en';
+
+// BCP 47 language tag with an optional region, e.g. "en", "pt-BR"
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
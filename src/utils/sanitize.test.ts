@@ -0,0 +1,107 @@
+import { sanitizeContentHtml, getSanitizePolicy, DEFAULT_SANITIZE_POLICY, SanitizePolicy } from './sanitize';
+
+const policy = (overrides: Partial<SanitizePolicy>): SanitizePolicy => ({
+  allowedTags: ['p', 'a', 'img'],
+  allowedAttributes: {},
+  iframeHosts: [],
+  ...overrides
+});
+
+describe('sanitizeContentHtml', () => {
+  it('strips event handler attributes even when the policy allows them', () => {
+    const { html, report } = sanitizeContentHtml(
+      '<p onclick="steal()" title="ok">hi</p><img src="a.png" onerror="alert(1)">',
+      policy({ allowedAttributes: { img: ['src', 'onerror'], '*': ['onclick', 'title'] } })
+    );
+
+    expect(html).toBe('<p title="ok">hi</p><img src="a.png" />');
+    expect(report.removedAttributes).toEqual(['p[onclick]', 'img[onerror]']);
+  });
+
+  it('blocks javascript: and other unsafe URLs', () => {
+    const { html, report } = sanitizeContentHtml(
+      '<a href="javascript:alert(1)">a</a><a href=" JaVaScRiPt:alert(1)">b</a>' +
+      '<a href="java&#x09;script:alert(1)">c</a><img src="data:text/html,x">'
+    );
+
+    expect(html).toBe('<a>a</a><a>b</a><a>c</a><img />');
+    expect(report.blockedUrls).toEqual(expect.arrayContaining([
+      'javascript:alert(1)',
+      ' JaVaScRiPt:alert(1)',
+      'data:text/html,x'
+    ]));
+  });
+
+  it('keeps http, https, mailto and relative URLs', () => {
+    const input = '<a href="https://example.com">a</a><a href="mailto:me@example.com">b</a><a href="/posts/x">c</a>';
+
+    expect(sanitizeContentHtml(input).html).toBe(input);
+  });
+
+  it('drops iframes from hosts outside the policy', () => {
+    const { html, report } = sanitizeContentHtml(
+      '<iframe src="https://evil.example/embed"></iframe><iframe src="https://www.youtube.com/embed/abc"></iframe>'
+    );
+
+    expect(html).toBe('<iframe src="https://www.youtube.com/embed/abc"></iframe>');
+    expect(report.blockedUrls).toEqual(['https://evil.example/embed']);
+  });
+
+  it('drops every iframe when the policy has no iframe hosts', () => {
+    const { html } = sanitizeContentHtml(
+      '<p>video</p><iframe src="https://www.youtube.com/embed/abc"></iframe>',
+      policy({ allowedTags: ['p', 'iframe'], allowedAttributes: { iframe: ['src'] } })
+    );
+
+    expect(html).toBe('<p>video</p>');
+  });
+
+  it('never allows forbidden tags, even when the policy lists them', () => {
+    const { html, report } = sanitizeContentHtml(
+      '<script>alert(1)</script><style>p { color: red }</style><form><p>ok</p></form>',
+      policy({ allowedTags: ['p', 'script', 'style', 'form'] })
+    );
+
+    expect(html).toBe('<p>ok</p>');
+    expect(report.removedTags).toEqual(['script', 'style', 'form']);
+  });
+
+  it('adds noopener to links that open a new tab', () => {
+    const { html } = sanitizeContentHtml('<a href="https://example.com" target="_blank">x</a>');
+
+    expect(html).toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>');
+  });
+
+  it('reports nothing for content the policy already allows', () => {
+    const input = '<h2 id="intro">Intro</h2><p>Some <strong>bold</strong> text.</p>';
+
+    expect(sanitizeContentHtml(input)).toEqual({
+      html: input,
+      report: { changed: false, removedTags: [], removedAttributes: [], blockedUrls: [] }
+    });
+  });
+
+  it('reports each removal once', () => {
+    const { report } = sanitizeContentHtml(
+      '<script>a()</script><script>b()</script><p onclick="a()">1</p><p onclick="b()">2</p>' +
+      '<a href="javascript:a()">x</a>'
+    );
+
+    expect(report).toEqual({
+      changed: true,
+      removedTags: ['script'],
+      removedAttributes: ['p[onclick]'],
+      blockedUrls: ['javascript:a()']
+    });
+  });
+});
+
+describe('getSanitizePolicy', () => {
+  it('falls back to the default for settings that are not configured', () => {
+    expect(getSanitizePolicy({ sanitizer_allowed_tags: ['p'], sanitizer_allowed_attributes: null })).toEqual({
+      allowedTags: ['p'],
+      allowedAttributes: DEFAULT_SANITIZE_POLICY.allowedAttributes,
+      iframeHosts: DEFAULT_SANITIZE_POLICY.iframeHosts
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import sanitizeHtml from 'sanitize-html';
+
+export interface SanitizePolicy {
+  allowedTags: string[];
+  allowedAttributes: Record<string, string[]>;
+  iframeHosts: string[];
+}
+
+// What the sanitizer took out, so editors can see why their content changed
+export interface SanitizeReport {
+  changed: boolean;
+  removedTags: string[];
+  removedAttributes: string[];
+  blockedUrls: string[];
+}
+
+export interface SanitizeResult {
+  html: string;
+  report: SanitizeReport;
+}
+
+export const DEFAULT_SANITIZE_POLICY: SanitizePolicy = {
+  allowedTags: [
+    ...sanitizeHtml.defaults.allowedTags,
+    'img', 'h1', 'h2', 'figure', 'figcaption', 'del', 'ins', 'sup', 'sub', 'details', 'summary'
+  ],
+  allowedAttributes: {
+    a: ['href', 'name', 'title', 'target', 'rel'],
+    img: ['src', 'alt', 'title', 'width', 'height', 'loading'],
+    h1: ['id'], h2: ['id'], h3: ['id'], h4: ['id'], h5: ['id'], h6: ['id'],
+    th: ['align', 'colspan', 'rowspan'],
+    td: ['align', 'colspan', 'rowspan'],
+    ol: ['start']
+  },
+  iframeHosts: ['www.youtube.com', 'www.youtube-nocookie.com', 'player.vimeo.com']
+};
+
+// Never allowed, whatever the blog settings say
+const FORBIDDEN_TAGS = ['script', 'style', 'object', 'embed', 'base', 'meta', 'link', 'form'];
+const IFRAME_ATTRIBUTES = ['src', 'width', 'height', 'title', 'allow', 'allowfullscreen', 'frameborder', 'loading'];
+const URL_ATTRIBUTES = ['href', 'src'];
+const ALLOWED_SCHEMES = ['http', 'https', 'mailto'];
+const ALLOWED_CLASSES: Record<string, string[]> = {
+  code: ['language-*']
+};
+
+// Build the policy from blog settings, falling back to the defaults for anything not configured
+export const getSanitizePolicy = (settings?: any): SanitizePolicy => {
+  return {
+    allowedTags: settings?.sanitizer_allowed_tags || DEFAULT_SANITIZE_POLICY.allowedTags,
+    allowedAttributes: settings?.sanitizer_allowed_attributes || DEFAULT_SANITIZE_POLICY.allowedAttributes,
+    iframeHosts: settings?.sanitizer_iframe_hosts || DEFAULT_SANITIZE_POLICY.iframeHosts
+  };
+};
+
+const isAllowedUrl = (value: string): boolean => {
+  const scheme = value.trim().match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || ALLOWED_SCHEMES.includes(scheme[1].toLowerCase());
+};
+
+const getHostname = (value: string): string | null => {
+  try {
+    return new URL(value, 'https://invalid.local').hostname;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Sanitize HTML against an allowlist policy.
+ *
+ * Event handler attributes and the FORBIDDEN_TAGS are always removed; iframes are only
+ * kept when their src points at one of the policy's iframe hosts.
+ */
+export const sanitizeContentHtml = (html: string, policy: SanitizePolicy = DEFAULT_SANITIZE_POLICY): SanitizeResult => {
+  const allowedTags = policy.allowedTags.filter((tag) => !FORBIDDEN_TAGS.includes(tag));
+  const allowedAttributes: Record<string, string[]> = {};
+  for (const [tag, attributes] of Object.entries(policy.allowedAttributes)) {
+    allowedAttributes[tag] = attributes.filter((attribute) => !/^on/i.test(attribute));
+  }
+
+  if (policy.iframeHosts.length > 0) {
+    allowedTags.push('iframe');
+    allowedAttributes.iframe = IFRAME_ATTRIBUTES;
+  }
+
+  const removedTags = new Set<string>();
+  const removedAttributes = new Set<string>();
+  const blockedUrls = new Set<string>();
+
+  const isAttributeAllowed = (tag: string, attribute: string): boolean => {
+    if (attribute === 'class' && ALLOWED_CLASSES[tag]) return true;
+    return (allowedAttributes[tag] || []).includes(attribute) || (allowedAttributes['*'] || []).includes(attribute);
+  };
+
+  const sanitized = sanitizeHtml(html, {
+    allowedTags,
+    allowedAttributes,
+    allowedClasses: ALLOWED_CLASSES,
+    allowedSchemes: ALLOWED_SCHEMES,
+    allowedIframeHostnames: policy.iframeHosts,
+    allowIframeRelativeUrls: false,
+    // A blocked src leaves an empty frame behind; drop it along with the URL
+    exclusiveFilter: (frame) => frame.tag === 'iframe' && !frame.attribs.src,
+    transformTags: {
+      // Runs for every tag before filtering; only used to record what the filter is about to drop
+      '*': (tagName, attribs) => {
+        if (!allowedTags.includes(tagName)) {
+          removedTags.add(tagName);
+          return { tagName, attribs };
+        }
+
+        for (const [attribute, value] of Object.entries(attribs)) {
+          if (!isAttributeAllowed(tagName, attribute)) {
+            removedAttributes.add(`${tagName}[${attribute}]`);
+          } else if (URL_ATTRIBUTES.includes(attribute) && !isAllowedUrl(value)) {
+            blockedUrls.add(value);
+          } else if (tagName === 'iframe' && attribute === 'src' && !policy.iframeHosts.includes(getHostname(value) || '')) {
+            blockedUrls.add(value);
+          }
+        }
+
+        // Links that open a new tab must not hand the opener to the target page
+        if (tagName === 'a' && attribs.target === '_blank') {
+          return { tagName, attribs: { ...attribs, rel: 'noopener noreferrer' } };
+        }
+
+        return { tagName, attribs };
+      }
+    }
+  });
+
+  return {
+    html: sanitized,
+    report: {
+      changed: removedTags.size > 0 || removedAttributes.size > 0 || blockedUrls.size > 0,
+      removedTags: [...removedTags],
+      removedAttributes: [...removedAttributes],
+      blockedUrls: [...blockedUrls]
+    }
+  };
+};
@@ -0,0 +1,27 @@
+import { formatSearchSnippet, SNIPPET_START, SNIPPET_STOP } from './searchSnippet';
+
+const mark = (text: string) => `${SNIPPET_START}${text}${SNIPPET_STOP}`;
+
+describe('formatSearchSnippet', () => {
+  it('wraps matches in <mark>', () => {
+    expect(formatSearchSnippet(`Full ${mark('text')} search`)).toBe('Full <mark>text</mark> search');
+  });
+
+  it('escapes entities from the source HTML only once', () => {
+    expect(formatSearchSnippet(`Tom &amp; ${mark('Jerry')} &lt;3`)).toBe('Tom &amp; <mark>Jerry</mark> &lt;3');
+    expect(formatSearchSnippet('it&#8217;s &#x2014; &quot;quoted&quot; &#39;too&#39;'))
+      .toBe('it’s — &quot;quoted&quot; &apos;too&apos;');
+    expect(formatSearchSnippet('&amp;lt;b&amp;gt;')).toBe('&amp;lt;b&amp;gt;');
+  });
+
+  it('leaves no markup from the content, even unterminated tags', () => {
+    expect(formatSearchSnippet(`${mark('img')} <img src=x onerror=alert(1)`))
+      .toBe('<mark>img</mark> &lt;img src=x onerror=alert(1)');
+    expect(formatSearchSnippet('&lt;script&gt;alert(1)&lt;/script&gt;'))
+      .toBe('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+
+  it('keeps unknown entities as text', () => {
+    expect(formatSearchSnippet('a &bogus; b &#0; c')).toBe('a &amp;bogus; b &amp;#0; c');
+  });
+});
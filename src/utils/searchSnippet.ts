@@ -0,0 +1,18 @@
+import { decodeEntities } from './contentRenderer';
+import { escapeXml } from './xml';
+
+// ts_headline marks matches with these; they become <mark> tags once the snippet text is escaped
+export const SNIPPET_START = '[[mark]]';
+export const SNIPPET_STOP = '[[/mark]]';
+
+/**
+ * Turn a raw ts_headline snippet into HTML whose only markup is the match highlights.
+ *
+ * The snippet is cut from rendered HTML with its tags stripped, so it still carries that HTML's
+ * entities; they are decoded once before the text is escaped, or they would come out double-escaped.
+ */
+export const formatSearchSnippet = (snippet: string): string => {
+  return escapeXml(decodeEntities(snippet))
+    .split(SNIPPET_START).join('<mark>')
+    .split(SNIPPET_STOP).join('</mark>');
+};
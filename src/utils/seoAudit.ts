@@ -0,0 +1,285 @@
+import { TocEntry } from './contentRenderer';
+import { countWords, htmlToText } from './contentStats';
+
+export type SeoCheckStatus = 'pass' | 'warning' | 'fail';
+
+export interface SeoFinding {
+  check: string;
+  status: SeoCheckStatus;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface SeoAuditInput {
+  title: string;
+  slug: string | null;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  excerpt: string | null;
+  featuredImageUrl: string | null;
+  contentHtml: string;
+  toc: TocEntry[];
+  focusKeyword?: string | null;
+  // Other posts already using the same meta title
+  duplicateMetaTitles: { id: string; title: string; slug: string }[];
+}
+
+export interface SeoAuditResult {
+  score: number;
+  findings: SeoFinding[];
+  passed: string[];
+}
+
+// How much each check counts towards the score; a warning earns half its weight
+const CHECK_WEIGHTS: Record<string, number> = {
+  meta_title: 15,
+  meta_description: 15,
+  featured_image: 10,
+  headings: 10,
+  image_alt_text: 10,
+  focus_keyword: 20,
+  slug: 5,
+  duplicate_meta_title: 15
+};
+
+const META_TITLE_RANGE = { min: 30, max: 60 };
+const META_DESCRIPTION_RANGE = { min: 70, max: 160 };
+const SLUG_MAX_LENGTH = 75;
+// Long posts without subheadings are hard to scan
+const HEADINGS_MIN_WORDS = 300;
+const KEYWORD_DENSITY_RANGE = { min: 0.5, max: 3 };
+// Density means little on very short posts
+const KEYWORD_DENSITY_MIN_WORDS = 100;
+
+const IMAGE_PATTERN = /<img\b[^>]*>/gi;
+const ALT_PATTERN = /\salt\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const SRC_PATTERN = /\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const FIRST_PARAGRAPH_PATTERN = /<p\b[^>]*>([\s\S]*?)<\/p>/i;
+
+const normalize = (value: string): string => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const countOccurrences = (text: string, phrase: string): number => {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return (text.match(new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}(?=$|[^\\p{L}\\p{N}])`, 'gu')) || []).length;
+};
+
+const checkMetaTitle = (input: SeoAuditInput): SeoFinding => {
+  const metaTitle = input.metaTitle?.trim();
+  if (!metaTitle) {
+    return {
+      check: 'meta_title',
+      status: 'warning',
+      message: 'No meta title set; search engines will fall back to the post title.',
+      details: { length: input.title.trim().length }
+    };
+  }
+
+  const { length } = metaTitle;
+  if (length < META_TITLE_RANGE.min || length > META_TITLE_RANGE.max) {
+    return {
+      check: 'meta_title',
+      status: 'warning',
+      message: length > META_TITLE_RANGE.max
+        ? `Meta title is ${length} characters and will be cut off in results; keep it under ${META_TITLE_RANGE.max}.`
+        : `Meta title is only ${length} characters; aim for ${META_TITLE_RANGE.min}-${META_TITLE_RANGE.max}.`,
+      details: { length, ...META_TITLE_RANGE }
+    };
+  }
+
+  return { check: 'meta_title', status: 'pass', message: 'Meta title length is good.', details: { length } };
+};
+
+const checkMetaDescription = (input: SeoAuditInput): SeoFinding => {
+  const metaDescription = input.metaDescription?.trim();
+  if (!metaDescription) {
+    return {
+      check: 'meta_description',
+      status: input.excerpt?.trim() ? 'warning' : 'fail',
+      message: input.excerpt?.trim()
+        ? 'No meta description set; the excerpt will be used instead.'
+        : 'Add a meta description to control the snippet shown in search results.'
+    };
+  }
+
+  const { length } = metaDescription;
+  if (length < META_DESCRIPTION_RANGE.min || length > META_DESCRIPTION_RANGE.max) {
+    return {
+      check: 'meta_description',
+      status: 'warning',
+      message: length > META_DESCRIPTION_RANGE.max
+        ? `Meta description is ${length} characters and will be truncated; keep it under ${META_DESCRIPTION_RANGE.max}.`
+        : `Meta description is only ${length} characters; aim for ${META_DESCRIPTION_RANGE.min}-${META_DESCRIPTION_RANGE.max}.`,
+      details: { length, ...META_DESCRIPTION_RANGE }
+    };
+  }
+
+  return { check: 'meta_description', status: 'pass', message: 'Meta description length is good.', details: { length } };
+};
+
+const checkFeaturedImage = (input: SeoAuditInput): SeoFinding => {
+  return input.featuredImageUrl
+    ? { check: 'featured_image', status: 'pass', message: 'Featured image is set.' }
+    : { check: 'featured_image', status: 'warning', message: 'Add a featured image so shares and result cards have a picture.' };
+};
+
+const checkHeadings = (input: SeoAuditInput, wordCount: number): SeoFinding => {
+  const problems: string[] = [];
+
+  if (input.toc.some((heading) => heading.level === 1)) {
+    problems.push('The post title is already the page heading; use H2 and below in the content.');
+  }
+
+  let previousLevel = 1;
+  for (const heading of input.toc) {
+    if (heading.level > previousLevel + 1) {
+      problems.push(`"${heading.text}" jumps from H${previousLevel} to H${heading.level}; don't skip heading levels.`);
+      break;
+    }
+    previousLevel = heading.level;
+  }
+
+  if (input.toc.length === 0 && wordCount >= HEADINGS_MIN_WORDS) {
+    problems.push(`The post has ${wordCount} words and no subheadings; break it up with H2 sections.`);
+  }
+
+  if (problems.length > 0) {
+    return { check: 'headings', status: 'warning', message: problems.join(' '), details: { headings: input.toc } };
+  }
+
+  return { check: 'headings', status: 'pass', message: 'Heading structure is good.' };
+};
+
+const checkImageAltText = (input: SeoAuditInput): SeoFinding => {
+  const images = input.contentHtml.match(IMAGE_PATTERN) || [];
+  const missing = images
+    .filter((tag) => {
+      const alt = tag.match(ALT_PATTERN);
+      return !alt || !(alt[1] ?? alt[2] ?? alt[3]).trim();
+    })
+    .map((tag) => {
+      const src = tag.match(SRC_PATTERN);
+      return src ? (src[1] ?? src[2] ?? src[3]) : null;
+    });
+
+  if (missing.length > 0) {
+    return {
+      check: 'image_alt_text',
+      status: 'fail',
+      message: `${missing.length} of ${images.length} images have no alt text.`,
+      details: { images: missing }
+    };
+  }
+
+  return { check: 'image_alt_text', status: 'pass', message: 'Every image has alt text.' };
+};
+
+const checkFocusKeyword = (input: SeoAuditInput, text: string, wordCount: number): SeoFinding => {
+  const keyword = input.focusKeyword ? normalize(input.focusKeyword) : '';
+  if (!keyword) {
+    return {
+      check: 'focus_keyword',
+      status: 'warning',
+      message: 'Pass a focusKeyword to check how well the post covers it.'
+    };
+  }
+
+  const firstParagraph = input.contentHtml.match(FIRST_PARAGRAPH_PATTERN);
+  const keywordSlug = keyword.replace(/[^\p{L}\p{N}]+/gu, '-');
+  const coverage = {
+    title: countOccurrences(normalize(input.metaTitle || input.title), keyword) > 0,
+    metaDescription: countOccurrences(normalize(input.metaDescription || input.excerpt || ''), keyword) > 0,
+    slug: (input.slug || '').toLowerCase().includes(keywordSlug),
+    firstParagraph: firstParagraph ? countOccurrences(normalize(htmlToText(firstParagraph[1])), keyword) > 0 : false,
+    subheading: input.toc.some((heading) => countOccurrences(normalize(heading.text), keyword) > 0)
+  };
+
+  const occurrences = countOccurrences(normalize(text), keyword);
+  const keywordWords = keyword.split(' ').length;
+  const density = wordCount > 0 ? Math.round((occurrences * keywordWords / wordCount) * 1000) / 10 : 0;
+
+  const missing = Object.entries(coverage).filter(([, found]) => !found).map(([place]) => place);
+  const problems: string[] = [];
+  if (missing.length > 0) {
+    problems.push(`"${input.focusKeyword}" is missing from: ${missing.join(', ')}.`);
+  }
+  const judgeDensity = wordCount >= KEYWORD_DENSITY_MIN_WORDS;
+  if (judgeDensity && density < KEYWORD_DENSITY_RANGE.min) {
+    problems.push(`Keyword density is ${density}%; mention it a few more times.`);
+  } else if (judgeDensity && density > KEYWORD_DENSITY_RANGE.max) {
+    problems.push(`Keyword density is ${density}%, which reads as stuffing; aim for under ${KEYWORD_DENSITY_RANGE.max}%.`);
+  }
+
+  const details = { coverage, occurrences, density };
+  if (problems.length === 0) {
+    return { check: 'focus_keyword', status: 'pass', message: 'The focus keyword is well covered.', details };
+  }
+
+  // Not in the title or the body at all is worth more than a warning
+  const status = !coverage.title && occurrences === 0 ? 'fail' : 'warning';
+  return { check: 'focus_keyword', status, message: problems.join(' '), details };
+};
+
+const checkSlug = (input: SeoAuditInput): SeoFinding => {
+  const length = (input.slug || '').length;
+  if (length > SLUG_MAX_LENGTH) {
+    return {
+      check: 'slug',
+      status: 'warning',
+      message: `Slug is ${length} characters; shorten it to under ${SLUG_MAX_LENGTH}.`,
+      details: { length }
+    };
+  }
+
+  return { check: 'slug', status: 'pass', message: 'Slug length is good.', details: { length } };
+};
+
+const checkDuplicateMetaTitle = (input: SeoAuditInput): SeoFinding => {
+  if (input.duplicateMetaTitles.length > 0) {
+    return {
+      check: 'duplicate_meta_title',
+      status: 'fail',
+      message: `${input.duplicateMetaTitles.length} other post(s) use the same title in search results; make this one unique.`,
+      details: { posts: input.duplicateMetaTitles }
+    };
+  }
+
+  return { check: 'duplicate_meta_title', status: 'pass', message: 'No other post uses this meta title.' };
+};
+
+/**
+ * Audit a post for on-page SEO.
+ *
+ * The score is the weighted share of passed checks out of 100, with warnings counting
+ * half. Findings hold every check that did not pass, failures first.
+ */
+export const auditPostSeo = (input: SeoAuditInput): SeoAuditResult => {
+  const text = htmlToText(input.contentHtml);
+  const wordCount = countWords(text);
+
+  const results = [
+    checkMetaTitle(input),
+    checkMetaDescription(input),
+    checkFeaturedImage(input),
+    checkHeadings(input, wordCount),
+    checkImageAltText(input),
+    checkFocusKeyword(input, text, wordCount),
+    checkSlug(input),
+    checkDuplicateMetaTitle(input)
+  ];
+
+  let earned = 0;
+  let total = 0;
+  for (const result of results) {
+    const weight = CHECK_WEIGHTS[result.check];
+    total += weight;
+    earned += result.status === 'pass' ? weight : result.status === 'warning' ? weight / 2 : 0;
+  }
+
+  return {
+    score: Math.round((earned / total) * 100),
+    findings: results
+      .filter((result) => result.status !== 'pass')
+      .sort((a, b) => (a.status === b.status ? 0 : a.status === 'fail' ? -1 : 1)),
+    passed: results.filter((result) => result.status === 'pass').map((result) => result.check)
+  };
+};
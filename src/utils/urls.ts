@@ -0,0 +1,13 @@
+import { DEFAULT_LOCALE } from './locales';
+
+// Public site address posts are linked from: the blog setting wins over the environment
+export const getSiteUrl = (settings?: { site_url?: string | null }): string => {
+  const siteUrl = settings?.site_url || process.env.FRONTEND_URL || 'http://localhost:3000';
+  return siteUrl.replace(/\/+$/, '');
+};
+
+// Posts in the default locale keep their unprefixed URLs; translations live under /<locale>
+export const getPostUrl = (siteUrl: string, slug: string, locale: string = DEFAULT_LOCALE): string => {
+  const prefix = locale === DEFAULT_LOCALE ? '' : `/${encodeURIComponent(locale)}`;
+  return `${siteUrl}${prefix}/posts/${encodeURIComponent(slug)}`;
+};
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+
+// User agents of crawlers, link previewers, monitors and HTTP libraries rather than people
+const BOT_USER_AGENT_PATTERN = new RegExp([
+  'bot', 'crawl', 'spider', 'slurp', 'archiver', 'scraper', 'fetcher',
+  'facebookexternalhit', 'embedly', 'preview', 'whatsapp', 'telegram', 'discord', 'skype',
+  'lighthouse', 'pagespeed', 'pingdom', 'uptime', 'monitor', 'statuscake', 'newrelic',
+  'headless', 'phantomjs', 'puppeteer', 'playwright', 'selenium',
+  'curl', 'wget', 'httpie', 'python-requests', 'python-urllib', 'aiohttp', 'go-http-client',
+  'java/', 'okhttp', 'apache-httpclient', 'libwww', 'node-fetch', 'axios', 'postman'
+].join('|'), 'i');
+
+// Requests without a user agent are treated as automated too
+export const isBotUserAgent = (userAgent: string | undefined | null): boolean => {
+  return !userAgent || BOT_USER_AGENT_PATTERN.test(userAgent);
+};
+
+// Anonymous, stable visitor identifier; the raw IP and user agent are never stored
+export const hashVisitor = (ip: string | undefined, userAgent: string | undefined): string => {
+  const salt = process.env.VIEW_HASH_SALT || process.env.JWT_SECRET || '';
+  return crypto
+    .createHash('sha256')
+    .update(`${salt}|${ip || ''}|${userAgent || ''}`)
+    .digest('hex');
+};
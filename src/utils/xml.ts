@@ -0,0 +1,18 @@
+// Escape text for use inside XML element content or attribute values
+export const escapeXml = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// Wrap markup in a CDATA section, splitting any terminator found in the content
+export const cdata = (value: unknown): string => {
+  if (value === null || value === undefined) return '<![CDATA[]]>';
+
+  return `<![CDATA[${String(value).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+};